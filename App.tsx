@@ -6,17 +6,24 @@ import Login from './components/Login';
 import ToolManagement from './components/ToolManagement';
 import Chat from './components/Chat';
 import DailyReports from './components/DailyReports';
-import { syncData, fetchDataFromCloud } from './services/googleSheetService';
-import { LayoutGrid, Users, Database, CloudLightning, Loader2, ArrowLeft, Wrench, FileText } from 'lucide-react';
+import IssueList from './components/IssueList';
+import { syncData, fetchDataFromCloud, flushPendingSync } from './services/googleSheetService';
+import { startOutboxWorker } from './services/outbox';
+import { LayoutGrid, Users, Database, CloudLightning, Loader2, ArrowLeft, Wrench, FileText, AlertTriangle } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from './db';
 import { UserProfile } from './types';
 
 function App() {
     const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
-    const [page, setPage] = useState<'projects' | 'team' | 'data' | 'tools' | 'reports'>('projects');
+    const [page, setPage] = useState<'projects' | 'team' | 'data' | 'tools' | 'reports' | 'issues'>('projects');
     const [syncStatus, setSyncStatus] = useState('');
     const [isAutoSyncing, setIsAutoSyncing] = useState(false);
 
+    // Outbox state shown next to the Sync button
+    const outboxDepth = useLiveQuery(() => db.outbox.count());
+    const outboxHead = useLiveQuery(() => db.outbox.orderBy('id').first());
+
     // Restore session
     useEffect(() => {
         const restoreSession = async () => {
@@ -44,7 +51,7 @@ function App() {
         return () => window.removeEventListener('popstate', handlePopState);
     }, []);
 
-    const navigateTo = (newPage: 'projects' | 'team' | 'data' | 'tools' | 'reports') => {
+    const navigateTo = (newPage: 'projects' | 'team' | 'data' | 'tools' | 'reports' | 'issues') => {
         if (newPage === page) return;
         // Push new state to history
         window.history.pushState({ page: newPage }, '', '');
@@ -74,10 +81,16 @@ function App() {
     const handleSync = async () => {
         setSyncStatus('Sync...');
         const result = await syncData();
-        setSyncStatus(result.success ? 'Hotovo' : 'Chyba');
+        setSyncStatus(result.success ? 'Hotovo' : result.queued > 0 ? 'Ve frontě' : 'Chyba');
         setTimeout(() => setSyncStatus(''), 3000);
     };
 
+    // Retry queued sync batches in the background while logged in
+    useEffect(() => {
+        if (!currentUser) return;
+        return startOutboxWorker(flushPendingSync);
+    }, [currentUser]);
+
     // Background Auto-Import Logic (Only if Admin)
     useEffect(() => {
         if (!currentUser || currentUser.role !== 'admin') return;
@@ -151,6 +164,16 @@ function App() {
                 </div>
                 <div className="flex items-center gap-2">
                     {isAutoSyncing && <Loader2 size={16} className="animate-spin text-blue-600" />}
+                    {!!outboxDepth && (
+                        <div className="flex flex-col items-end leading-none" title={outboxHead?.lastError || 'Čeká na odeslání'}>
+                            <span className="text-[10px] font-bold text-white bg-amber-500/90 px-1.5 py-0.5 rounded-full shadow-sm">
+                                {outboxDepth} ve frontě
+                            </span>
+                            {outboxHead?.lastError && (
+                                <span className="text-[9px] text-white/90 drop-shadow mt-0.5 max-w-[120px] truncate">{outboxHead.lastError}</span>
+                            )}
+                        </div>
+                    )}
                     <button
                         onClick={handleSync}
                         className="glass-button px-3 py-1.5 text-xs flex items-center gap-1 text-slate-800 bg-white/50 hover:bg-white/70 active:scale-95 transition-transform">
@@ -162,13 +185,19 @@ function App() {
 
             {/* Main Tab Navigation (Top Segmented Control) */}
             <div className="px-4 mt-4 sticky top-[72px] z-40">
-                <div className="glass-panel p-1.5 grid grid-cols-5 gap-1 shadow-lg bg-white/30 backdrop-blur-2xl">
+                <div className="glass-panel p-1.5 grid grid-cols-6 gap-1 shadow-lg bg-white/30 backdrop-blur-2xl">
                     <button
                         onClick={() => navigateTo('projects')}
                         className={`flex flex-col items-center justify-center py-2 rounded-xl transition-all duration-300 ${page === 'projects' ? 'bg-white shadow-md text-blue-600 scale-[1.02]' : 'text-slate-600 hover:bg-white/20'}`}>
                         <LayoutGrid size={18} strokeWidth={2.5} />
                         <span className="text-[10px] font-bold uppercase tracking-wide mt-1">Projekty</span>
                     </button>
+                    <button
+                        onClick={() => navigateTo('issues')}
+                        className={`flex flex-col items-center justify-center py-2 rounded-xl transition-all duration-300 ${page === 'issues' ? 'bg-white shadow-md text-blue-600 scale-[1.02]' : 'text-slate-600 hover:bg-white/20'}`}>
+                        <AlertTriangle size={18} strokeWidth={2.5} />
+                        <span className="text-[10px] font-bold uppercase tracking-wide mt-1">Problémy</span>
+                    </button>
                     <button
                         onClick={() => navigateTo('team')}
                         className={`flex flex-col items-center justify-center py-2 rounded-xl transition-all duration-300 ${page === 'team' ? 'bg-white shadow-md text-blue-600 scale-[1.02]' : 'text-slate-600 hover:bg-white/20'}`}>
@@ -199,6 +228,7 @@ function App() {
             {/* Main Content */}
             <main className="flex-1 p-4 w-full max-w-lg mx-auto mb-6">
                 {page === 'projects' && <ProjectManagement user={currentUser} />}
+                {page === 'issues' && <IssueList user={currentUser} />}
                 {page === 'team' && <TeamManagement user={currentUser} />}
                 {page === 'reports' && <DailyReports currentUser={currentUser} />}
                 {page === 'data' && <DataManagement user={currentUser} onLogout={handleLogout} />}
@@ -9,46 +9,157 @@
  *    - Execute as: "Me"
  *    - Who has access: "Anyone" (Required for simple fetch from PWA without complex OAuth flow)
  * 6. Copy the URL and paste it into the App Settings.
+ * 7. Recommended: Project Settings > Script Properties > add SYNC_SECRET with a long random
+ *    value and enter the same value as "Klíč backendu" in the app. Every request must then
+ *    carry a valid HMAC signature, so knowing the URL alone is not enough.
+ *
+ * PROTOCOL (same as the local server in server/syncServer.ts):
+ *  - POST {action: 'push', deviceId, data}  -> {status, cursor}
+ *  - GET  ?action=pull&cursor=N&deviceId=X  -> {status, batches, cursor}
+ *  - POST {action: 'ack', deviceId, cursor} -> {status}
  */
 
+function jsonResponse(body) {
+  return ContentService.createTextOutput(JSON.stringify(body)).setMimeType(ContentService.MimeType.JSON);
+}
+
+// Mirrors services/requestSigning.ts: HMAC-SHA256 over "ts\nnonce\ncontent", 5 minute window
+const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+function toHex(bytes) {
+  return bytes.map(function (b) {
+    return ('0' + (b & 0xff).toString(16)).slice(-2);
+  }).join('');
+}
+
+// Compares without bailing out at the first differing character (services/requestSigning.ts safeEqual)
+function safeEqual(a, b) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// Returns an error message when the request must be refused, null when it is authentic
+function checkSignature(params, content) {
+  const secret = PropertiesService.getScriptProperties().getProperty('SYNC_SECRET');
+  if (!secret) return null;
+
+  if (!params.ts || !params.nonce || !params.sig) return 'Missing request signature';
+  if (Math.abs(Date.now() - Number(params.ts)) > SIGNATURE_MAX_AGE_MS) return 'Request timestamp outside allowed window';
+
+  const expected = toHex(Utilities.computeHmacSha256Signature(params.ts + '\n' + params.nonce + '\n' + content, secret));
+  if (!safeEqual(expected, String(params.sig))) return 'Invalid request signature';
+
+  // Remember the nonce for twice the allowed window so the request cannot be replayed
+  const cache = CacheService.getScriptCache();
+  const key = 'nonce_' + params.nonce;
+  if (cache.get(key)) return 'Replayed request';
+  cache.put(key, '1', Math.ceil(2 * SIGNATURE_MAX_AGE_MS / 1000));
+  return null;
+}
+
+function getSheet(name, header) {
+  const ss = SpreadsheetApp.getActiveSpreadsheet();
+  let sheet = ss.getSheetByName(name);
+  if (!sheet) {
+    sheet = ss.insertSheet(name);
+    sheet.appendRow(header);
+  }
+  return sheet;
+}
+
+function getRawDataSheet() {
+  return getSheet("RawData", ["Timestamp", "DataLength", "RawContent", "DeviceId"]);
+}
+
 function doPost(e) {
   try {
+    const denied = checkSignature(e.parameter || {}, e.postData.contents);
+    if (denied) {
+      return jsonResponse({ status: 'error', message: denied });
+    }
+
     const postData = JSON.parse(e.postData.contents);
-    const compressedData = postData.data; // Expecting LZ-string compressed data
-    
-    // In a real scenario, you might decompress here if you want to store readable data in Sheets immediately.
-    // However, Apps Script libraries for LZ-string are rare. 
-    // Usually, we store the raw blob or use a lighter compression if server-side processing is needed.
-    // For this prototype, we will just log that we received it and "mock" saving to a sheet named "RawData".
-    
-    const ss = SpreadsheetApp.getActiveSpreadsheet();
-    let sheet = ss.getSheetByName("RawData");
-    if (!sheet) {
-      sheet = ss.insertSheet("RawData");
-      sheet.appendRow(["Timestamp", "DataLength", "RawContent"]);
+
+    if (postData.action === 'ack') {
+      return handleAck(postData);
     }
-    
-    sheet.appendRow([new Date(), compressedData.length, compressedData]);
-    
-    // To be truly useful, you would pass the JSON uncompressed from the client 
-    // OR include LZString.js in this Apps Script project to decompress and distribute to specific sheets (Team, Projects, etc.)
-    
-    return ContentService.createTextOutput(JSON.stringify({
+
+    // Push (older clients send no action). Apps Script libraries for LZ-string are rare,
+    // so we store the compressed blob as is and hand it back unchanged on pull.
+    const compressedData = postData.data; // Expecting LZ-string compressed data
+    const sheet = getRawDataSheet();
+
+    // Each row holds one delta batch (only records changed since the client's last acknowledged push).
+    sheet.appendRow([new Date(), compressedData.length, compressedData, postData.deviceId || '']);
+
+    // The row number acts as the sync cursor.
+    return jsonResponse({
       status: 'success',
-      message: 'Data saved successfully to Sheet'
-    })).setMimeType(ContentService.MimeType.JSON);
-    
+      message: 'Data saved successfully to Sheet',
+      cursor: String(sheet.getLastRow())
+    });
+
   } catch (error) {
-    return ContentService.createTextOutput(JSON.stringify({
+    return jsonResponse({
       status: 'error',
       message: error.toString()
-    })).setMimeType(ContentService.MimeType.JSON);
+    });
   }
 }
 
+function handleAck(postData) {
+  const sheet = getSheet("Devices", ["DeviceId", "Cursor", "AckedAt"]);
+  const values = sheet.getDataRange().getValues();
+  for (let i = 1; i < values.length; i++) {
+    if (values[i][0] === postData.deviceId) {
+      sheet.getRange(i + 1, 2, 1, 2).setValues([[postData.cursor, new Date()]]);
+      return jsonResponse({ status: 'success' });
+    }
+  }
+  sheet.appendRow([postData.deviceId, postData.cursor, new Date()]);
+  return jsonResponse({ status: 'success' });
+}
+
 function doGet(e) {
-  return ContentService.createTextOutput(JSON.stringify({
-    status: 'active',
-    message: 'MST Backend is running'
-  })).setMimeType(ContentService.MimeType.JSON);
-}
\ No newline at end of file
+  const params = (e && e.parameter) || {};
+  if (params.action !== 'pull') {
+    return jsonResponse({
+      status: 'active',
+      message: 'MST Backend is running'
+    });
+  }
+
+  try {
+    const denied = checkSignature(params, 'pull\n' + (params.deviceId || '') + '\n' + (params.cursor || ''));
+    if (denied) {
+      return jsonResponse({ status: 'error', message: denied });
+    }
+
+    const sheet = getRawDataSheet();
+    const lastRow = sheet.getLastRow();
+    // Row 1 is the header, so a fresh client starts after it
+    const cursor = Math.max(Number(params.cursor) || 1, 1);
+    const batches = [];
+
+    if (lastRow > cursor) {
+      const rows = sheet.getRange(cursor + 1, 3, lastRow - cursor, 2).getValues();
+      rows.forEach(function (row) {
+        // Skip the pulling device's own batches
+        if (row[1] !== params.deviceId) batches.push(row[0]);
+      });
+    }
+
+    return jsonResponse({
+      status: 'success',
+      batches: batches,
+      cursor: String(Math.max(lastRow, cursor))
+    });
+  } catch (error) {
+    return jsonResponse({
+      status: 'error',
+      message: error.toString()
+    });
+  }
+}
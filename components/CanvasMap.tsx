@@ -1,12 +1,88 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Table, TableStatus } from '../types';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { PowerConfig, StageDefinition, Table, TableStatus } from '../types';
+import {
+  TABLE_WIDTH, TABLE_HEIGHT, CELL_WIDTH, CELL_HEIGHT, Point,
+  tableOrigin, tableCenter, moveTables, rotateTables, snapToGrid, pointInPolygon, boxPolygon
+} from '../logic/mapGeometry';
+import { SpatialIndex } from '../logic/spatialIndex';
+import { fitViewport, renderMap, visibleWorldRect } from '../logic/mapRenderer';
+import { exportMap, exportFileName, MapExportFormat } from '../logic/mapExport';
+import { buildOverlay, buildStageOverlay, OverlayMode, OVERLAY_LABELS } from '../logic/mapOverlays';
+import { calcStageProgress, DEFAULT_POWER_CONFIG } from '../logic/powerCalc';
+import { buildTimeline, exportTimelapse, isCompletedWithin, snapshotAt, TimelapseFormat, TimelapseStep } from '../logic/timelapse';
+import { DEFAULT_CATALOGUE, TrackerCatalogue, trackerOf } from '../logic/trackerTypes';
+
+// New table placed in the layout editor; the parent assigns index and ID
+export interface NewTablePlacement {
+  type: string; // Tracker type ID
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+export interface LayoutChanges {
+  moved: Pick<Table, 'id' | 'x' | 'y' | 'rotation'>[];
+  added: NewTablePlacement[];
+  deleted: string[];
+}
 
 interface CanvasMapProps {
   tables: Table[];
   onTableClick: (tableId: string) => void;
+  editable?: boolean; // Shows the layout editor (admins)
+  onLayoutSave?: (changes: LayoutChanges) => Promise<void> | void;
+  selection?: Set<string>; // Tables picked for a bulk action, owned by the parent
+  onSelectionChange?: (ids: Set<string>) => void;
+  projectName?: string; // Header of exported maps
+  memberNames?: Record<string, string>; // Member ID -> name for the installer overlay
+  focus?: { tableId: string; at: number }; // Pans to the table and pulses it; `at` tells repeated requests apart
+  onTableLongPress?: (tableId: string) => void; // Opens the table detail
+  stages?: StageDefinition[]; // Installation pipeline; shows per-stage progress
+  activeStage?: string | null; // Stage the map is coloured by (and taps toggle, in the parent)
+  onActiveStageChange?: (stageId: string | null) => void;
+  power?: PowerConfig; // Module and string layout for kWp figures in replays and exports
+  trackers?: TrackerCatalogue; // Tracker types for labels, the type overlay and kWp figures
 }
 
-const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick }) => {
+type SelectScope = 'table' | 'row' | 'block';
+type SelectTool = 'box' | 'lasso';
+
+// Undo depth of the layout editor
+const MAX_HISTORY = 50;
+const DRAFT_PREFIX = 'draft_';
+
+// Far zoom stays usable on big parks thanks to the aggregated level of detail
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 5;
+
+// Time-lapse playback speed
+const REPLAY_INTERVAL_MS = 400;
+
+// Focusing a table zooms in at least this far and pulses it for a while
+const FOCUS_SCALE = 1.5;
+const PULSE_MS = 3000;
+
+// Minimap canvas size; big sites are drawn as progress blocks there
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 120;
+const MINIMAP_DETAIL_LIMIT = 2000;
+
+// Press-and-hold on a table; moving the finger further than this pans instead
+const LONG_PRESS_MS = 500;
+const LONG_PRESS_TOLERANCE = 8;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(href);
+};
+
+const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick, editable = false, onLayoutSave, selection, onSelectionChange, projectName, memberNames, focus, onTableLongPress, stages, activeStage, onActiveStageChange, power = DEFAULT_POWER_CONFIG, trackers = DEFAULT_CATALOGUE }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [scale, setScale] = useState(1);
   const [offset, setOffset] = useState({ x: 50, y: 50 }); 
@@ -14,137 +90,519 @@ const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick }) => {
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [lastTouchDistance, setLastTouchDistance] = useState<number | null>(null);
 
-  // Constants for drawing
-  const TABLE_WIDTH = 45;
-  const TABLE_HEIGHT = 25;
-  const GAP = 15;
+  // Layout editor: edits go to a draft copy and are saved in one go
+  const [draft, setDraft] = useState<Table[] | null>(null);
+  const [history, setHistory] = useState<Table[][]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [scope, setScope] = useState<SelectScope>('table');
+  const [snap, setSnap] = useState(true);
+  const [addType, setAddType] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const moveRef = useRef<{ start: Point; base: Table[]; anchor: Point; moved: boolean } | null>(null);
+  const draftCounter = useRef(0);
+
+  // Selection mode: drag draws a box or lasso, taps toggle tables, shift extends a range by index
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectTool, setSelectTool] = useState<SelectTool>('box');
+  const [selectPath, setSelectPath] = useState<Point[] | null>(null);
+  const rangeAnchorRef = useRef<string | null>(null);
+
+  const [showExport, setShowExport] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [overlayMode, setOverlayMode] = useState<OverlayMode>('status');
+  const [pulse, setPulse] = useState<{ tableId: string; startedAt: number } | null>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const minimapDragRef = useRef(false);
+  const longPressRef = useRef<{ timer: number; x: number; y: number } | null>(null);
+  const longPressFiredRef = useRef(false);
+
+  // Time-lapse: replays completions on top of the current layout
+  const [replay, setReplay] = useState<{ step: TimelapseStep; frame: number; playing: boolean } | null>(null);
+  const [replayProgress, setReplayProgress] = useState<string | null>(null);
+
+  const isEditing = draft !== null;
+  const isReplaying = replay !== null;
+
+  const replayStep = replay?.step;
+  const timeline = useMemo(() => (replayStep ? buildTimeline(tables, replayStep, trackers, power) : []), [tables, replayStep, trackers, power]);
+  const replayFrame = replay && timeline.length > 0 ? timeline[Math.min(replay.frame, timeline.length - 1)] : null;
+  const replayTables = useMemo(() => (replayFrame ? snapshotAt(tables, replayFrame.at) : null), [tables, replayFrame]);
+  const visibleTables = draft || replayTables || tables;
+
+  // Rebuilt only when the tables change, not on pan/zoom
+  const index = useMemo(() => new SpatialIndex(visibleTables), [visibleTables]);
+  const activeStageDef = stages?.find(s => s.id === activeStage);
+  const overlay = useMemo(
+    () => (activeStageDef && stages
+      ? buildStageOverlay(visibleTables, activeStageDef, stages)
+      : buildOverlay(overlayMode, visibleTables, memberNames, trackers)),
+    [activeStageDef, stages, overlayMode, visibleTables, memberNames, trackers]
+  );
+  const stageProgress = useMemo(() => (stages ? calcStageProgress(tables, stages, trackers, power) : []), [tables, stages, trackers, power]);
 
-  const drawCheckmark = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
-    ctx.beginPath();
-    ctx.moveTo(x + size * 0.2, y + size * 0.5);
-    ctx.lineTo(x + size * 0.45, y + size * 0.8);
-    ctx.lineTo(x + size * 0.8, y + size * 0.2);
-    ctx.strokeStyle = '#15803d'; 
-    ctx.lineWidth = 2;
-    ctx.stroke();
-  };
+  const isPlaying = !!replay?.playing;
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setReplay(r => {
+        if (!r) return r;
+        if (r.frame >= timeline.length - 1) return { ...r, playing: false };
+        return { ...r, frame: r.frame + 1 };
+      });
+    }, REPLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, timeline]);
 
-  const drawExclamation = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
-    ctx.fillStyle = '#b91c1c';
-    ctx.beginPath();
-    ctx.arc(x + size / 2, y + size * 0.8, size * 0.1, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.beginPath();
-    ctx.roundRect(x + size * 0.4, y + size * 0.15, size * 0.2, size * 0.5, 2);
-    ctx.fill();
-  };
+  const pulseTable = useMemo(() => (pulse ? visibleTables.find(t => t.id === pulse.tableId) || null : null), [pulse, visibleTables]);
 
-  const draw = useCallback((exportMode = false) => {
+  const draw = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // For export, allow solid background
-    if (exportMode) {
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-    }
-
-    // Draw grid
-    const gridSize = 50 * scale;
-    ctx.strokeStyle = exportMode ? '#e2e8f0' : 'rgba(0,0,0,0.05)';
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    for (let x = (offset.x % gridSize); x < canvas.width; x += gridSize) {
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, canvas.height);
-    }
-    for (let y = (offset.y % gridSize); y < canvas.height; y += gridSize) {
-      ctx.moveTo(0, y);
-      ctx.lineTo(canvas.width, y);
-    }
-    ctx.stroke();
-
-    ctx.save();
-    ctx.translate(offset.x, offset.y);
-    ctx.scale(scale, scale);
-
-    tables.forEach((table) => {
-      const drawX = table.x * (TABLE_WIDTH + GAP);
-      const drawY = table.y * (TABLE_HEIGHT + GAP);
-
-      let fillColor = '#ffffff';
-      let strokeColor = '#94a3b8';
-      let shadowColor = 'rgba(0,0,0,0.05)';
-
-      if (table.status === TableStatus.Completed) {
-        fillColor = '#dcfce7'; 
-        strokeColor = '#22c55e';
-        shadowColor = 'rgba(34, 197, 94, 0.2)';
-      } else if (table.status === TableStatus.Issue) {
-        fillColor = '#fee2e2'; 
-        strokeColor = '#ef4444'; 
-        shadowColor = 'rgba(239, 68, 68, 0.2)';
+    renderMap(ctx, index, { scale, offset, width: canvas.width, height: canvas.height }, {
+      gridColor: isEditing ? 'rgba(37,99,235,0.12)' : undefined,
+      colorFor: overlay.mode === 'status' ? undefined : overlay.colorFor,
+      labelFor: t => trackerOf(trackers, t.type).code,
+      isHighlighted: t => {
+        if (isEditing) return selectedIds.has(t.id);
+        if (replayFrame) return isCompletedWithin(t, replayFrame);
+        return !!selection?.has(t.id);
       }
+    });
 
-      // Shadow
-      ctx.fillStyle = shadowColor;
-      ctx.fillRect(drawX + 3, drawY + 3, TABLE_WIDTH, TABLE_HEIGHT);
+    // Search result highlight: a ring expanding from the table every second
+    if (pulseTable && pulse) {
+      const phase = ((performance.now() - pulse.startedAt) % 1000) / 1000;
+      const center = tableCenter(pulseTable);
+      ctx.save();
+      ctx.translate(offset.x, offset.y);
+      ctx.scale(scale, scale);
+      ctx.strokeStyle = `rgba(37, 99, 235, ${1 - phase})`;
+      ctx.lineWidth = 3 / scale;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, TABLE_WIDTH * (0.6 + phase), 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
 
-      // Main Rect
-      ctx.fillStyle = fillColor;
-      ctx.strokeStyle = strokeColor;
-      ctx.lineWidth = table.status === TableStatus.Pending ? 1 : 2;
-      
+    // Box / lasso being drawn
+    if (selectPath && selectPath.length > 1) {
+      const outline = selectTool === 'box' ? boxPolygon(selectPath[0], selectPath[selectPath.length - 1]) : selectPath;
+      ctx.save();
+      ctx.translate(offset.x, offset.y);
+      ctx.scale(scale, scale);
       ctx.beginPath();
-      if (ctx.roundRect) {
-        ctx.roundRect(drawX, drawY, TABLE_WIDTH, TABLE_HEIGHT, 4);
-      } else {
-        ctx.rect(drawX, drawY, TABLE_WIDTH, TABLE_HEIGHT);
-      }
+      outline.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.fillStyle = 'rgba(37, 99, 235, 0.08)';
       ctx.fill();
+      ctx.strokeStyle = '#2563eb';
+      ctx.lineWidth = 1.5 / scale;
+      ctx.setLineDash([6 / scale, 4 / scale]);
       ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.restore();
+    }
+  }, [index, overlay, trackers, scale, offset, isEditing, replayFrame, pulse, pulseTable, selectedIds, selection, selectPath, selectTool]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
 
-      // Label
-      ctx.fillStyle = '#64748b';
-      ctx.font = 'bold 10px sans-serif';
-      ctx.textAlign = 'left';
-      ctx.textBaseline = 'top';
-      ctx.fillText(table.type, drawX + 4, drawY + 4);
-
-      // Icon
-      if (table.status === TableStatus.Completed) {
-        drawCheckmark(ctx, drawX + TABLE_WIDTH - 16, drawY + TABLE_HEIGHT - 16, 14);
-      } else if (table.status === TableStatus.Issue) {
-        drawExclamation(ctx, drawX + TABLE_WIDTH - 16, drawY + TABLE_HEIGHT - 16, 14);
-      } else {
-        ctx.strokeStyle = '#cbd5e1';
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        ctx.arc(drawX + TABLE_WIDTH - 8, drawY + TABLE_HEIGHT - 8, 3, 0, Math.PI * 2);
-        ctx.stroke();
+  // The pulse animates outside React state, so keep the latest draw at hand
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+
+  useEffect(() => {
+    if (!pulse) return;
+    let frame = 0;
+    const tick = () => {
+      if (performance.now() - pulse.startedAt > PULSE_MS) {
+        setPulse(null);
+        return;
       }
-    });
+      drawRef.current();
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [pulse]);
+
+  // Puts a world point in the middle of the canvas
+  const centerOn = (point: Point, nextScale: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setScale(nextScale);
+    setOffset({ x: canvas.width / 2 - point.x * nextScale, y: canvas.height / 2 - point.y * nextScale });
+  };
 
-    ctx.restore();
-  }, [tables, scale, offset]);
+  useEffect(() => {
+    if (!focus) return;
+    const table = tables.find(t => t.id === focus.tableId);
+    if (!table) return;
+    centerOn(tableCenter(table), Math.max(scale, FOCUS_SCALE));
+    setPulse({ tableId: table.id, startedAt: performance.now() });
+  }, [focus]);
+
+  const zoomToFit = () => {
+    const canvas = canvasRef.current;
+    const bounds = index.bounds;
+    if (!canvas || !bounds) return;
+    const fit = fitViewport(bounds, canvas.width, canvas.height, TABLE_WIDTH);
+    centerOn(
+      { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+      Math.min(Math.max(fit.scale, MIN_SCALE), MAX_SCALE)
+    );
+  };
+
+  // --- Minimap ---
+
+  const showMinimap = !isEditing && !isSelecting && !isReplaying && index.size > 0;
+  const minimapViewport = useMemo(
+    () => fitViewport(index.bounds, MINIMAP_WIDTH, MINIMAP_HEIGHT, TABLE_WIDTH),
+    [index]
+  );
 
   useEffect(() => {
-    draw();
-  }, [draw]);
+    const minimap = minimapRef.current;
+    const canvas = canvasRef.current;
+    if (!showMinimap || !minimap || !canvas) return;
+    const ctx = minimap.getContext('2d');
+    if (!ctx) return;
+
+    renderMap(ctx, index, minimapViewport, {
+      lod: index.size > MINIMAP_DETAIL_LIMIT ? 'aggregate' : 'simple',
+      colorFor: overlay.mode === 'status' ? undefined : overlay.colorFor
+    });
+
+    // Current viewport
+    const view = visibleWorldRect({ scale, offset, width: canvas.width, height: canvas.height });
+    const m = minimapViewport;
+    ctx.strokeStyle = '#2563eb';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(
+      view.minX * m.scale + m.offset.x,
+      view.minY * m.scale + m.offset.y,
+      (view.maxX - view.minX) * m.scale,
+      (view.maxY - view.minY) * m.scale
+    );
+  }, [showMinimap, index, minimapViewport, overlay, scale, offset]);
+
+  const navigateMinimap = (clientX: number, clientY: number) => {
+    const minimap = minimapRef.current;
+    if (!minimap) return;
+    const rect = minimap.getBoundingClientRect();
+    const px = (clientX - rect.left) * (minimap.width / rect.width);
+    const py = (clientY - rect.top) * (minimap.height / rect.height);
+    const m = minimapViewport;
+    centerOn({ x: (px - m.offset.x) / m.scale, y: (py - m.offset.y) / m.scale }, scale);
+  };
+
+  // Canvas pixels to world coordinates (the canvas is scaled by CSS)
+  const toWorld = (clientX: number, clientY: number): Point => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    const px = (clientX - rect.left) * (canvas.width / rect.width);
+    const py = (clientY - rect.top) * (canvas.height / rect.height);
+    return { x: (px - offset.x) / scale, y: (py - offset.y) / scale };
+  };
+
+  const findTable = (point: Point) => index.hitTest(point);
+
+  // --- Long press ---
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
+
+  const startLongPress = (clientX: number, clientY: number) => {
+    longPressFiredRef.current = false;
+    cancelLongPress();
+    if (!onTableLongPress || isEditing || isSelecting || isReplaying) return;
+    const hit = findTable(toWorld(clientX, clientY));
+    if (!hit) return;
+    const timer = window.setTimeout(() => {
+      longPressRef.current = null;
+      longPressFiredRef.current = true; // Swallow the click that ends this press
+      setIsDragging(false);
+      onTableLongPress(hit.id);
+    }, LONG_PRESS_MS);
+    longPressRef.current = { timer, x: clientX, y: clientY };
+  };
+
+  const trackLongPress = (clientX: number, clientY: number) => {
+    const press = longPressRef.current;
+    if (press && Math.hypot(clientX - press.x, clientY - press.y) > LONG_PRESS_TOLERANCE) cancelLongPress();
+  };
+
+  useEffect(() => cancelLongPress, []);
+
+  // --- Selection ---
+
+  const canSelect = !!onSelectionChange;
+
+  // Tables between the last picked table and this one, by index
+  const rangeTo = (table: Table) => {
+    const anchor = tables.find(t => t.id === rangeAnchorRef.current);
+    if (!anchor) return [table.id];
+    const from = Math.min(anchor.index, table.index);
+    const to = Math.max(anchor.index, table.index);
+    return tables.filter(t => t.index >= from && t.index <= to).map(t => t.id);
+  };
+
+  const pickTable = (table: Table, extendRange: boolean) => {
+    if (!onSelectionChange) return;
+    const next = new Set(selection);
+    if (extendRange) {
+      rangeTo(table).forEach(id => next.add(id));
+    } else if (next.has(table.id)) {
+      next.delete(table.id);
+    } else {
+      next.add(table.id);
+    }
+    rangeAnchorRef.current = table.id;
+    onSelectionChange(next);
+  };
+
+  const beginSelectGesture = (clientX: number, clientY: number) => {
+    setSelectPath([toWorld(clientX, clientY)]);
+  };
+
+  const continueSelectGesture = (clientX: number, clientY: number) => {
+    if (!selectPath) return;
+    const point = toWorld(clientX, clientY);
+    if (selectTool === 'box') {
+      setSelectPath([selectPath[0], point]);
+    } else {
+      const last = selectPath[selectPath.length - 1];
+      // Skip tiny steps so long lassos stay cheap to test against
+      if (Math.hypot(point.x - last.x, point.y - last.y) * scale > 4) setSelectPath([...selectPath, point]);
+    }
+  };
+
+  const endSelectGesture = (extendRange: boolean) => {
+    const path = selectPath;
+    setSelectPath(null);
+    if (!path || !onSelectionChange) return;
+
+    const xs = path.map(p => p.x);
+    const ys = path.map(p => p.y);
+    const isTap = (Math.max(...xs) - Math.min(...xs)) * scale < 6 && (Math.max(...ys) - Math.min(...ys)) * scale < 6;
+    if (isTap) {
+      const hit = findTable(path[0]);
+      if (hit) pickTable(hit, extendRange);
+      return;
+    }
+
+    const polygon = selectTool === 'box' ? boxPolygon(path[0], path[path.length - 1]) : path;
+    const next = new Set(selection);
+    const bounds = { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+    index.query(bounds).forEach(t => {
+      if (pointInPolygon(tableCenter(t), polygon)) next.add(t.id);
+    });
+    onSelectionChange(next);
+  };
+
+  const toggleSelecting = () => {
+    if (isSelecting) {
+      setIsSelecting(false);
+      setSelectPath(null);
+    } else {
+      setIsSelecting(true);
+    }
+  };
+
+  // --- Time-lapse ---
+
+  const toggleReplay = () => {
+    if (isReplaying) {
+      setReplay(null);
+    } else {
+      setIsSelecting(false);
+      setSelectPath(null);
+      setReplay({ step: 'day', frame: 0, playing: true });
+    }
+  };
+
+  const setReplayStep = (step: TimelapseStep) => setReplay({ step, frame: 0, playing: false });
+
+  const togglePlayback = () => {
+    if (!replay) return;
+    // Play from the start again once the end was reached
+    const atEnd = replay.frame >= timeline.length - 1;
+    setReplay({ ...replay, frame: atEnd && !replay.playing ? 0 : replay.frame, playing: !replay.playing });
+  };
+
+  const handleReplayExport = async (format: TimelapseFormat) => {
+    if (!replay || timeline.length === 0) return;
+    setReplay({ ...replay, playing: false });
+    setReplayProgress('0 %');
+    try {
+      const name = projectName || 'Projekt';
+      const blob = await exportTimelapse(format, tables, timeline, name, trackers, power,
+        (done, total) => setReplayProgress(`${Math.round(done / total * 100)} %`));
+      downloadBlob(blob, exportFileName({ projectName: `${name} casosber`, date: new Date() }, format === 'apng' ? 'png' : 'zip'));
+    } catch (e) {
+      console.error(e);
+      alert('Export časosběru se nezdařil');
+    } finally {
+      setReplayProgress(null);
+    }
+  };
+
+  // --- Layout editor ---
+
+  const startEditing = () => {
+    setIsSelecting(false);
+    onSelectionChange?.(new Set());
+    setDraft(tables);
+    setHistory([]);
+    setSelectedIds(new Set());
+    setAddType(null);
+  };
+
+  const stopEditing = () => {
+    setDraft(null);
+    setHistory([]);
+    setSelectedIds(new Set());
+    setAddType(null);
+  };
+
+  const commit = (next: Table[], base: Table[]) => {
+    setHistory(h => [...h, base].slice(-MAX_HISTORY));
+    setDraft(next);
+  };
+
+  const undo = () => {
+    if (history.length === 0) return;
+    setDraft(history[history.length - 1]);
+    setHistory(h => h.slice(0, -1));
+  };
+
+  // Tables picked by tapping one of them, widened to its row (within the block) or block
+  const selectionFor = (table: Table) => {
+    if (!draft || scope === 'table') return new Set([table.id]);
+    if (scope === 'block' && !table.block) return new Set([table.id]);
+    if (scope === 'row' && !table.row) return new Set([table.id]);
+    const group = draft.filter(t => scope === 'block'
+      ? t.block === table.block
+      : t.row === table.row && t.block === table.block);
+    return new Set(group.map(t => t.id));
+  };
+
+  const beginEditGesture = (clientX: number, clientY: number): boolean => {
+    if (!draft) return false;
+    const point = toWorld(clientX, clientY);
+    const hit = findTable(point);
+
+    if (!hit) {
+      if (addType) {
+        const origin = {
+          x: snap ? snapToGrid(point.x - TABLE_WIDTH / 2) : point.x - TABLE_WIDTH / 2,
+          y: snap ? snapToGrid(point.y - TABLE_HEIGHT / 2) : point.y - TABLE_HEIGHT / 2
+        };
+        const id = `${DRAFT_PREFIX}${++draftCounter.current}`;
+        const template = draft[0];
+        commit([...draft, {
+          id,
+          projectId: template?.projectId || '',
+          index: -1,
+          type: addType,
+          status: TableStatus.Pending,
+          x: origin.x / CELL_WIDTH,
+          y: origin.y / CELL_HEIGHT,
+          rotation: 0
+        }], draft);
+        setSelectedIds(new Set([id]));
+        return true;
+      }
+      setSelectedIds(new Set());
+      return false; // Empty space pans as usual
+    }
+
+    const ids = selectedIds.has(hit.id) ? selectedIds : selectionFor(hit);
+    setSelectedIds(ids);
+    moveRef.current = { start: point, base: draft, anchor: tableOrigin(hit), moved: false };
+    return true;
+  };
+
+  const continueEditGesture = (clientX: number, clientY: number) => {
+    const move = moveRef.current;
+    if (!move) return;
+    const point = toWorld(clientX, clientY);
+    let dx = point.x - move.start.x;
+    let dy = point.y - move.start.y;
+    if (snap) {
+      // Snap the grabbed table to the grid, the rest of the selection follows rigidly
+      dx = snapToGrid(move.anchor.x + dx) - move.anchor.x;
+      dy = snapToGrid(move.anchor.y + dy) - move.anchor.y;
+    }
+    if (dx === 0 && dy === 0 && !move.moved) return;
+    move.moved = true;
+    setDraft(moveTables(move.base, selectedIds, dx, dy));
+  };
+
+  const endEditGesture = () => {
+    const move = moveRef.current;
+    moveRef.current = null;
+    if (move?.moved) setHistory(h => [...h, move.base].slice(-MAX_HISTORY));
+  };
+
+  const rotateSelection = (degrees: number) => {
+    if (!draft || selectedIds.size === 0) return;
+    commit(rotateTables(draft, selectedIds, degrees), draft);
+  };
+
+  const deleteSelection = () => {
+    if (!draft || selectedIds.size === 0) return;
+    commit(draft.filter(t => !selectedIds.has(t.id)), draft);
+    setSelectedIds(new Set());
+  };
+
+  const saveLayout = async () => {
+    if (!draft || !onLayoutSave) return;
+    const original = new Map(tables.map(t => [t.id, t]));
+    const remaining = new Set(draft.map(t => t.id));
+    const changes: LayoutChanges = {
+      moved: draft
+        .filter(t => {
+          const before = original.get(t.id);
+          return before && (before.x !== t.x || before.y !== t.y || (before.rotation || 0) !== (t.rotation || 0));
+        })
+        .map(t => ({ id: t.id, x: t.x, y: t.y, rotation: t.rotation })),
+      added: draft
+        .filter(t => t.id.startsWith(DRAFT_PREFIX))
+        .map(t => ({ type: t.type, x: t.x, y: t.y, rotation: t.rotation || 0 })),
+      deleted: tables.filter(t => !remaining.has(t.id)).map(t => t.id)
+    };
+    setIsSaving(true);
+    try {
+      await onLayoutSave(changes);
+      stopEditing();
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   // Mouse Events
   const handleMouseDown = (e: React.MouseEvent) => {
+    if (isSelecting) return beginSelectGesture(e.clientX, e.clientY);
+    if (isEditing && beginEditGesture(e.clientX, e.clientY)) return;
+    startLongPress(e.clientX, e.clientY);
     setIsDragging(true);
     setDragStart({ x: e.clientX - offset.x, y: e.clientY - offset.y });
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (isDragging) {
+    trackLongPress(e.clientX, e.clientY);
+    if (selectPath) {
+      continueSelectGesture(e.clientX, e.clientY);
+    } else if (moveRef.current) {
+      continueEditGesture(e.clientX, e.clientY);
+    } else if (isDragging) {
       setOffset({
         x: e.clientX - dragStart.x,
         y: e.clientY - dragStart.y,
@@ -152,24 +610,34 @@ const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick }) => {
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent) => {
+    cancelLongPress();
+    if (selectPath) endSelectGesture(e.shiftKey);
+    endEditGesture();
     setIsDragging(false);
   };
 
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
     const zoomSensitivity = 0.001;
+    // Multiplicative, so a wheel step feels the same at 5 % and at 500 %
     const delta = -e.deltaY * zoomSensitivity;
-    const newScale = Math.min(Math.max(scale + delta, 0.2), 5);
+    const newScale = Math.min(Math.max(scale * Math.exp(delta), MIN_SCALE), MAX_SCALE);
     setScale(newScale);
   };
 
   // Touch Events (Pinch to Zoom)
   const handleTouchStart = (e: React.TouchEvent) => {
     if (e.touches.length === 1) {
+        if (isSelecting) return beginSelectGesture(e.touches[0].clientX, e.touches[0].clientY);
+        if (isEditing && beginEditGesture(e.touches[0].clientX, e.touches[0].clientY)) return;
+        startLongPress(e.touches[0].clientX, e.touches[0].clientY);
         setIsDragging(true);
         setDragStart({ x: e.touches[0].clientX - offset.x, y: e.touches[0].clientY - offset.y });
     } else if (e.touches.length === 2) {
+        cancelLongPress();
+        setSelectPath(null);
+        endEditGesture();
         setIsDragging(false); // Stop dragging when pinching
         const dist = Math.hypot(
             e.touches[0].clientX - e.touches[1].clientX,
@@ -180,7 +648,12 @@ const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick }) => {
   };
 
   const handleTouchMove = (e: React.TouchEvent) => {
-    if (e.touches.length === 1 && isDragging) {
+    if (e.touches.length === 1) trackLongPress(e.touches[0].clientX, e.touches[0].clientY);
+    if (e.touches.length === 1 && selectPath) {
+        continueSelectGesture(e.touches[0].clientX, e.touches[0].clientY);
+    } else if (e.touches.length === 1 && moveRef.current) {
+        continueEditGesture(e.touches[0].clientX, e.touches[0].clientY);
+    } else if (e.touches.length === 1 && isDragging) {
         setOffset({
             x: e.touches[0].clientX - dragStart.x,
             y: e.touches[0].clientY - dragStart.y,
@@ -191,10 +664,9 @@ const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick }) => {
             e.touches[0].clientY - e.touches[1].clientY
         );
         
-        const delta = dist - lastTouchDistance;
-        // Sensitivity factor for pinch
-        const zoomFactor = delta * 0.005; 
-        const newScale = Math.min(Math.max(scale + zoomFactor, 0.2), 5);
+        // Scale follows the finger spread
+        const zoomFactor = dist / lastTouchDistance;
+        const newScale = Math.min(Math.max(scale * zoomFactor, MIN_SCALE), MAX_SCALE);
         
         setScale(newScale);
         setLastTouchDistance(dist);
@@ -202,54 +674,49 @@ const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick }) => {
   };
 
   const handleTouchEnd = () => {
+    cancelLongPress();
+    if (selectPath) endSelectGesture(false);
+    endEditGesture();
     setIsDragging(false);
     setLastTouchDistance(null);
   };
 
   const handleClick = (e: React.MouseEvent) => {
-    if (isDragging) return; 
+    if (longPressFiredRef.current) {
+      longPressFiredRef.current = false;
+      return;
+    }
+    if (isDragging || isEditing || isSelecting || isReplaying) return;
 
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const clickX = (e.clientX - rect.left - offset.x) / scale;
-    const clickY = (e.clientY - rect.top - offset.y) / scale;
-
-    const clickedTable = tables.find(t => {
-      const tx = t.x * (TABLE_WIDTH + GAP);
-      const ty = t.y * (TABLE_HEIGHT + GAP);
-      return (
-        clickX >= tx &&
-        clickX <= tx + TABLE_WIDTH &&
-        clickY >= ty &&
-        clickY <= ty + TABLE_HEIGHT
-      );
-    });
+    const clickedTable = findTable(toWorld(e.clientX, e.clientY));
 
-    if (clickedTable) {
+    if (clickedTable && e.shiftKey && canSelect) {
+      // Shift-click picks instead of cycling the status
+      pickTable(clickedTable, rangeAnchorRef.current !== null);
+    } else if (clickedTable) {
       onTableClick(clickedTable.id);
     }
   };
 
-  const resetView = () => {
-      setScale(1);
-      setOffset({x: 50, y: 50});
-  };
-
-  const handleDownload = () => {
-      if(canvasRef.current) {
-          // Re-draw with solid background for export
-          draw(true);
-          const link = document.createElement('a');
-          link.download = `solar-park-plan-${Date.now()}.png`;
-          link.href = canvasRef.current.toDataURL();
-          link.click();
-          // Draw back normal state
-          setTimeout(() => draw(false), 100);
+  // Whole project at print resolution, independent of the current viewport
+  const handleExport = async (format: MapExportFormat) => {
+      setShowExport(false);
+      setIsExporting(true);
+      try {
+          const info = { projectName: projectName || 'Projekt', date: new Date(), power, trackers };
+          const blob = await exportMap(format, tables, info);
+          downloadBlob(blob, exportFileName(info, format));
+      } catch (e) {
+          console.error(e);
+          alert('Export mapy se nezdařil');
+      } finally {
+          setIsExporting(false);
       }
   };
 
+  const toolButton = (active = false) =>
+    `px-2 py-1 rounded-lg text-[10px] font-bold border transition-colors ${active ? 'bg-blue-500 text-white border-blue-500' : 'bg-white/70 text-slate-700 border-white/40 hover:bg-white'}`;
+
   return (
     <div className="relative w-full h-96 select-none bg-white/40 backdrop-blur-xl">
       
@@ -257,40 +724,201 @@ const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick }) => {
       <div className="absolute top-4 right-4 flex flex-col gap-2 z-10">
         <button 
             className="w-10 h-10 flex items-center justify-center bg-white/70 backdrop-blur-md rounded-full shadow-lg border border-white/40 text-slate-700 hover:bg-white transition"
-            onClick={() => setScale(s => Math.min(s + 0.2, 5))}
+            onClick={() => setScale(s => Math.min(s * 1.25, MAX_SCALE))}
         >
           <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="11" cy="11" r="8"/><line x1="21" y1="21" x2="16.65" y2="16.65"/><line x1="11" y1="8" x2="11" y2="14"/><line x1="8" y1="11" x2="14" y2="11"/></svg>
         </button>
         <button 
             className="w-10 h-10 flex items-center justify-center bg-white/70 backdrop-blur-md rounded-full shadow-lg border border-white/40 text-slate-700 hover:bg-white transition"
-            onClick={() => setScale(s => Math.max(s - 0.2, 0.2))}
+            onClick={() => setScale(s => Math.max(s / 1.25, MIN_SCALE))}
         >
           <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="11" cy="11" r="8"/><line x1="21" y1="21" x2="16.65" y2="16.65"/><line x1="8" y1="11" x2="14" y2="11"/></svg>
         </button>
-        <button 
-            className="w-10 h-10 flex items-center justify-center bg-white/70 backdrop-blur-md rounded-full shadow-lg border border-white/40 text-slate-700 hover:bg-white transition mt-2"
-            onClick={handleDownload}
-            title="Uložit jako obrázek"
-        >
-           <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"/><circle cx="12" cy="13" r="4"/></svg>
-        </button>
+        <div className="relative mt-2">
+          <button 
+              className="w-10 h-10 flex items-center justify-center bg-white/70 backdrop-blur-md rounded-full shadow-lg border border-white/40 text-slate-700 hover:bg-white transition disabled:opacity-50"
+              onClick={() => setShowExport(!showExport)}
+              disabled={isExporting}
+              title="Exportovat mapu"
+          >
+             <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"/><circle cx="12" cy="13" r="4"/></svg>
+          </button>
+          {showExport && (
+            <div className="absolute right-12 top-0 flex gap-1.5 bg-white/60 backdrop-blur-md p-2 rounded-xl shadow-lg border border-white/40">
+              {(['png', 'svg', 'pdf'] as MapExportFormat[]).map(format => (
+                <button key={format} className={toolButton()} onClick={() => handleExport(format)}>{format.toUpperCase()}</button>
+              ))}
+            </div>
+          )}
+        </div>
         <button 
             className="w-10 h-10 flex items-center justify-center bg-white/70 backdrop-blur-md rounded-full shadow-lg border border-white/40 text-slate-700 hover:bg-white transition"
-            onClick={resetView}
+            onClick={zoomToFit}
+            title="Zobrazit celý park"
         >
-          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 2v6h6"/><path d="M21 12A9 9 0 0 0 6 5.3L3 8"/><path d="M21 22v-6h-6"/><path d="M3 12a9 9 0 0 0 15 6.7l3-2.7"/></svg>
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M8 3H5a2 2 0 0 0-2 2v3"/><path d="M21 8V5a2 2 0 0 0-2-2h-3"/><path d="M3 16v3a2 2 0 0 0 2 2h3"/><path d="M16 21h3a2 2 0 0 0 2-2v-3"/></svg>
         </button>
+        {!isEditing && (
+          <button
+              className={`w-10 h-10 flex items-center justify-center backdrop-blur-md rounded-full shadow-lg border border-white/40 transition mt-2 ${isReplaying ? 'bg-blue-500 text-white' : 'bg-white/70 text-slate-700 hover:bg-white'}`}
+              onClick={toggleReplay}
+              title="Časosběr"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
+          </button>
+        )}
+        {canSelect && !isEditing && !isReplaying && (
+          <button
+              className={`w-10 h-10 flex items-center justify-center backdrop-blur-md rounded-full shadow-lg border border-white/40 transition mt-2 ${isSelecting ? 'bg-blue-500 text-white' : 'bg-white/70 text-slate-700 hover:bg-white'}`}
+              onClick={toggleSelecting}
+              title="Vybrat více stolů"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeDasharray="4 3"><rect x="3" y="3" width="18" height="18" rx="2"/></svg>
+          </button>
+        )}
+        {editable && onLayoutSave && !isEditing && !isReplaying && (
+          <button
+              className="w-10 h-10 flex items-center justify-center bg-white/70 backdrop-blur-md rounded-full shadow-lg border border-white/40 text-slate-700 hover:bg-white transition mt-2"
+              onClick={startEditing}
+              title="Upravit layout"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg>
+          </button>
+        )}
       </div>
 
+      {/* Overlay picker and legend */}
+      <div className="absolute top-4 left-4 z-10 max-w-[60%] bg-white/80 backdrop-blur-sm p-2 rounded-xl shadow-sm border border-white">
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(OVERLAY_LABELS) as OverlayMode[]).map(mode => (
+            <button key={mode} className={toolButton(overlay.mode === mode)} onClick={() => { setOverlayMode(mode); onActiveStageChange?.(null); }}>{OVERLAY_LABELS[mode]}</button>
+          ))}
+        </div>
+        <div className="mt-1.5 max-h-28 overflow-y-auto text-[10px] font-bold text-slate-600">
+          {overlay.legend.map(entry => (
+            <div key={entry.label} className="flex items-center gap-1.5 mt-1">
+              <div className="w-2 h-2 rounded-full border shrink-0" style={{ backgroundColor: entry.colors.fill, borderColor: entry.colors.stroke }}></div>
+              <span className="truncate">{entry.label}</span>
+              <span className="ml-auto pl-2 font-mono text-slate-400">{entry.count}</span>
+            </div>
+          ))}
+          {overlay.legend.length === 0 && <div className="mt-1 italic font-medium text-slate-400">Žádná data</div>}
+        </div>
+        {stageProgress.length > 0 && (
+          <div className="mt-2 pt-1.5 border-t border-slate-200 text-[10px] font-bold text-slate-600">
+            {stageProgress.map(stage => (
+              <button
+                key={stage.id}
+                className={`w-full text-left px-1 py-0.5 rounded ${activeStage === stage.id ? 'bg-blue-100 text-blue-700' : 'hover:bg-slate-100'}`}
+                onClick={() => onActiveStageChange?.(activeStage === stage.id ? null : stage.id)}
+                title={activeStage === stage.id ? 'Zpět na běžný režim' : 'Obarvit mapu podle etapy, klepnutí na stůl ji odškrtne'}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="truncate">{stage.name}</span>
+                  <span className="font-mono text-slate-400">{stage.percent} %</span>
+                </div>
+                <div className="h-1 mt-0.5 bg-slate-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-green-500" style={{ width: `${stage.percent}%` }}></div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Selection toolbar */}
+      {isSelecting && (
+        <div className="absolute bottom-12 left-4 z-10 flex gap-1.5 bg-white/60 backdrop-blur-md p-2 rounded-xl shadow-lg border border-white/40">
+          <button className={toolButton(selectTool === 'box')} onClick={() => setSelectTool('box')}>Obdélník</button>
+          <button className={toolButton(selectTool === 'lasso')} onClick={() => setSelectTool('lasso')}>Laso</button>
+          <button className={toolButton()} onClick={() => { rangeAnchorRef.current = null; onSelectionChange?.(new Set()); }} disabled={!selection?.size}>Zrušit výběr</button>
+        </div>
+      )}
+
+      {/* Time-lapse controls */}
+      {replay && (
+        <div className="absolute bottom-12 left-4 right-16 z-10 flex flex-col gap-1.5 bg-white/60 backdrop-blur-md p-2 rounded-xl shadow-lg border border-white/40">
+          {replayFrame ? (
+            <>
+              <div className="flex items-center gap-1.5">
+                <button className={toolButton(replay.playing)} onClick={togglePlayback}>{replay.playing ? '❚❚' : '▶'}</button>
+                <input
+                  type="range"
+                  min={0}
+                  max={timeline.length - 1}
+                  value={Math.min(replay.frame, timeline.length - 1)}
+                  onChange={e => setReplay({ ...replay, frame: Number(e.target.value), playing: false })}
+                  className="flex-1 accent-blue-500"
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-1.5 text-[10px] font-bold text-slate-700">
+                <span className="font-mono">{replayFrame.label}</span>
+                <span className="text-green-700">{replayFrame.completed} stolů • {replayFrame.kwp.toFixed(1)} kWp</span>
+                {replayFrame.added > 0 && <span className="text-blue-600">+{replayFrame.added}</span>}
+                <span className="ml-auto flex gap-1.5">
+                  <button className={toolButton(replay.step === 'day')} onClick={() => setReplayStep('day')}>Den</button>
+                  <button className={toolButton(replay.step === 'hour')} onClick={() => setReplayStep('hour')}>Hodina</button>
+                  <button className={toolButton()} onClick={() => handleReplayExport('zip')} disabled={!!replayProgress}>Snímky</button>
+                  <button className={toolButton()} onClick={() => handleReplayExport('apng')} disabled={!!replayProgress}>Animace</button>
+                </span>
+              </div>
+              {replayProgress && <div className="text-[10px] font-mono text-slate-500">Export… {replayProgress}</div>}
+            </>
+          ) : (
+            <div className="text-[10px] font-bold text-slate-500 italic">Žádné dokončené stoly s časem dokončení.</div>
+          )}
+        </div>
+      )}
+
+      {/* Layout editor toolbar */}
+      {isEditing && (
+        <div className="absolute bottom-12 left-4 right-16 z-10 flex flex-wrap gap-1.5 bg-white/60 backdrop-blur-md p-2 rounded-xl shadow-lg border border-white/40">
+          <button className={toolButton(scope === 'table')} onClick={() => setScope('table')}>Stůl</button>
+          <button className={toolButton(scope === 'row')} onClick={() => setScope('row')}>Řada</button>
+          <button className={toolButton(scope === 'block')} onClick={() => setScope('block')}>Blok</button>
+          <span className="w-px bg-slate-300 mx-0.5" />
+          <button className={toolButton()} onClick={() => rotateSelection(-15)} disabled={selectedIds.size === 0}>⟲ 15°</button>
+          <button className={toolButton()} onClick={() => rotateSelection(15)} disabled={selectedIds.size === 0}>⟳ 15°</button>
+          <button className={toolButton()} onClick={() => rotateSelection(90)} disabled={selectedIds.size === 0}>90°</button>
+          <button className={toolButton(snap)} onClick={() => setSnap(!snap)}>Mřížka</button>
+          <span className="w-px bg-slate-300 mx-0.5" />
+          {Array.from(trackers.values()).map(type => (
+            <button key={type.id} className={toolButton(addType === type.id)} onClick={() => setAddType(addType === type.id ? null : type.id)} title={type.name}>+ {type.code}</button>
+          ))}
+          <button className={toolButton()} onClick={deleteSelection} disabled={selectedIds.size === 0}>Smazat</button>
+          <button className={toolButton()} onClick={undo} disabled={history.length === 0}>Zpět</button>
+          <span className="w-px bg-slate-300 mx-0.5" />
+          <button className="px-2 py-1 rounded-lg text-[10px] font-bold bg-green-500 text-white" onClick={saveLayout} disabled={isSaving}>Uložit</button>
+          <button className="px-2 py-1 rounded-lg text-[10px] font-bold bg-slate-300 text-slate-700" onClick={stopEditing}>Zrušit</button>
+        </div>
+      )}
+
       <div className="absolute bottom-4 left-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-full text-xs font-mono text-white shadow-lg pointer-events-none">
           Zoom: {Math.round(scale * 100)}%
+          {isEditing && ` • Vybráno ${selectedIds.size}`}
+          {!isEditing && !!selection?.size && ` • Vybráno ${selection.size}`}
       </div>
 
+      {showMinimap && (
+        <canvas
+          ref={minimapRef}
+          width={MINIMAP_WIDTH}
+          height={MINIMAP_HEIGHT}
+          className="absolute bottom-4 right-16 z-10 w-32 h-24 bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-white cursor-pointer touch-none"
+          onMouseDown={e => { minimapDragRef.current = true; navigateMinimap(e.clientX, e.clientY); }}
+          onMouseMove={e => { if (minimapDragRef.current) navigateMinimap(e.clientX, e.clientY); }}
+          onMouseUp={() => { minimapDragRef.current = false; }}
+          onMouseLeave={() => { minimapDragRef.current = false; }}
+          onTouchStart={e => navigateMinimap(e.touches[0].clientX, e.touches[0].clientY)}
+          onTouchMove={e => navigateMinimap(e.touches[0].clientX, e.touches[0].clientY)}
+        />
+      )}
+
       <canvas
         ref={canvasRef}
         width={800}
         height={600}
-        className="cursor-move w-full h-full touch-none"
+        className={`${isEditing || isSelecting ? 'cursor-crosshair' : 'cursor-move'} w-full h-full touch-none`}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
@@ -300,9 +928,10 @@ const CanvasMap: React.FC<CanvasMapProps> = ({ tables, onTableClick }) => {
         onTouchStart={handleTouchStart}
         onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
+        onContextMenu={e => { if (onTableLongPress) e.preventDefault(); }}
       />
     </div>
   );
 };
 
-export default CanvasMap;
\ No newline at end of file
+export default CanvasMap;
@@ -50,6 +50,11 @@ export default function DailyReports({ currentUser }: DailyReportsProps) {
                         t => t.completedAt && t.completedAt >= todayStart && t.completedAt <= todayEnd
                     ).length;
 
+                    // Issue reports filed and closed today
+                    const projectIssues = await db.issues.where('projectId').equals(project.id).toArray();
+                    const issuesOpened = projectIssues.filter(i => i.reportedAt >= todayStart && i.reportedAt <= todayEnd).length;
+                    const issuesResolved = projectIssues.filter(i => i.resolvedAt && i.resolvedAt >= todayStart && i.resolvedAt <= todayEnd).length;
+
                     // Count active workers on this project
                     const assignedWorkers = project.assignedEmployees?.length || 0;
 
@@ -60,6 +65,8 @@ export default function DailyReports({ currentUser }: DailyReportsProps) {
                         tablesTotal: allTables.length,
                         completionPercentage: allTables.length > 0 ? Math.round((completedTables.length / allTables.length) * 100) : 0,
                         issuesCount: issueTables.length,
+                        issuesOpened,
+                        issuesResolved,
                         activeWorkers: assignedWorkers
                     };
                 })
@@ -115,6 +122,8 @@ export default function DailyReports({ currentUser }: DailyReportsProps) {
             // Generate summary
             const totalCompleted = projectStats.reduce((sum, p) => sum + p.tablesCompleted, 0);
             const totalIssues = projectStats.reduce((sum, p) => sum + p.issuesCount, 0);
+            const totalOpened = projectStats.reduce((sum, p) => sum + p.issuesOpened, 0);
+            const totalResolved = projectStats.reduce((sum, p) => sum + p.issuesResolved, 0);
 
             let summary = `Denní report pro ${new Date(today).toLocaleDateString('cs-CZ', { day: 'numeric', month: 'long', year: 'numeric' })}.\n\n`;
             summary += `📊 Celkem dokončeno ${totalCompleted} trackerů.\n`;
@@ -122,6 +131,9 @@ export default function DailyReports({ currentUser }: DailyReportsProps) {
             if (totalIssues > 0) {
                 summary += `⚠️ Hlášeno ${totalIssues} problémů.\n`;
             }
+            if (totalOpened > 0 || totalResolved > 0) {
+                summary += `📝 Dnes nahlášeno ${totalOpened}, vyřešeno ${totalResolved} problémů.\n`;
+            }
             if (topPerformersData.length > 0) {
                 summary += `🏆 Nejlepší výkon: ${topPerformersData[0].memberName} (${topPerformersData[0].tablesCompleted} trackerů).\n`;
             }
@@ -181,7 +193,7 @@ ${report.projectStats.map(p => `
 ${p.projectName}
   - Dokončeno dnes: ${p.tablesCompleted} trackerů
   - Celkový pokrok: ${p.completionPercentage}% (${p.tablesTotal} celkem)
-  - Problémy: ${p.issuesCount}
+  - Problémy: ${p.issuesCount}${p.issuesOpened !== undefined ? ` (dnes nahlášeno ${p.issuesOpened}, vyřešeno ${p.issuesResolved ?? 0})` : ''}
   - Aktivní pracovníci: ${p.activeWorkers}
 `).join('\n')}
 
@@ -328,6 +340,7 @@ Problémy: ${report.toolsStats.issuesReported}
                                                             <div className="flex items-center gap-1 col-span-2">
                                                                 <AlertCircle size={12} className="text-red-600" />
                                                                 Problémy: {proj.issuesCount}
+                                                                {!!(proj.issuesOpened || proj.issuesResolved) && ` • dnes +${proj.issuesOpened || 0} / −${proj.issuesResolved || 0}`}
                                                             </div>
                                                         )}
                                                     </div>
@@ -1,14 +1,46 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { db } from '../db';
+import { db, SYNC_ENTITIES } from '../db';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { 
     Database, CloudLightning, Save, Shield, 
     Download, Upload, FileJson, Trash2, 
-    Lock, Unlock, History, RefreshCw, LogOut, Clock
+    Lock, Unlock, History, RefreshCw, LogOut, Clock, AlertTriangle, Activity, Smartphone
 } from 'lucide-react';
-import { setScriptUrl, getScriptUrl, syncData, fetchDataFromCloud } from '../services/googleSheetService';
+import { setScriptUrl, getScriptUrl, getSyncBackend, setSyncBackend, getSyncEntities, setSyncEntities, getSyncPassphrase, setSyncPassphrase, getSyncSecret, setSyncSecret, syncData, fetchDataFromCloud, resolveConflict } from '../services/googleSheetService';
+import { SyncBackend } from '../services/syncTransport';
 import LZString from 'lz-string';
-import { UserProfile } from '../types';
+import { PayloadVersionError, unwrapPayload, wrapPayload } from '../logic/payloadSchema';
+import { DecryptionError, decryptString, encryptString, isEncrypted as isEncryptedData } from '../services/encryption';
+import { UserProfile, SyncConflict, SyncEntity, SyncRecord } from '../types';
+import SyncJournal from './SyncJournal';
+import PeerSync from './PeerSync';
+
+const ENTITY_LABELS: Record<SyncEntity, string> = {
+    projects: 'Projekty',
+    trackerTypes: 'Typy trackerů',
+    tables: 'Stoly',
+    tableHistory: 'Historie stolů',
+    issues: 'Problémy',
+    inverters: 'Střídače',
+    combinerBoxes: 'Rozvaděče',
+    team: 'Tým',
+    attendance: 'Docházka',
+    tools: 'Nářadí',
+    chat: 'Chat',
+    dailyReports: 'Reporty',
+    logs: 'Logy'
+};
+
+// Short human readable description of one side of a conflict
+const describeRecord = (record: SyncRecord): string => {
+    if ('name' in record && record.name) return record.name;
+    if ('index' in record && 'status' in record) {
+        return `#${record.index} • ${['Čeká', 'Hotovo', 'Problém'][record.status] ?? record.status}`;
+    }
+    if ('date' in record && 'type' in record) return `${record.date} • ${record.type}`;
+    if ('tableIds' in record) return record.description || `${record.tableIds.length} stolů`;
+    return record.id;
+};
 
 interface Props {
     user: UserProfile;
@@ -17,15 +49,21 @@ interface Props {
 
 const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
     const [scriptUrl, setLocalScriptUrl] = useState(getScriptUrl());
+    const [backend, setBackend] = useState<SyncBackend>(getSyncBackend());
+    const [syncEntities, setLocalSyncEntities] = useState<SyncEntity[]>(getSyncEntities());
     const [syncStatus, setSyncStatus] = useState('');
     const [isEncrypted, setIsEncrypted] = useState(localStorage.getItem('MST_ENCRYPTION') === 'true');
+    const [syncPassphrase, setLocalSyncPassphrase] = useState(getSyncPassphrase());
+    const [syncSecret, setLocalSyncSecret] = useState(getSyncSecret());
     const [importInterval, setImportInterval] = useState(localStorage.getItem('MST_AUTO_IMPORT_INTERVAL') || '0');
+    const [tab, setTab] = useState<'overview' | 'offline' | 'journal'>('overview');
     
     // Stats Live Queries
     const projectCount = useLiveQuery(() => db.projects.count());
     const tableCount = useLiveQuery(() => db.projectTables.count());
     const teamCount = useLiveQuery(() => db.team.count());
     const logs = useLiveQuery(() => db.logs.orderBy('timestamp').reverse().limit(10).toArray());
+    const conflicts = useLiveQuery(() => db.conflicts.orderBy('detectedAt').reverse().toArray());
 
     const fileInputRef = useRef<HTMLInputElement>(null);
     const isAdmin = user.role === 'admin';
@@ -57,14 +95,30 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
         setTimeout(() => setSyncStatus(''), 3000);
     }
 
+    const handleResolveConflict = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+        if (!isAdmin) return;
+        await resolveConflict(conflict, keep);
+        await logAction('CONFLICT_RESOLVED', `${conflict.entity} ${conflict.recordId}: ${keep === 'local' ? 'local kept' : 'cloud applied'}`);
+    };
+
     const saveSettings = () => {
         if (!isAdmin) return;
         setScriptUrl(scriptUrl);
+        setSyncBackend(backend);
+        setSyncEntities(syncEntities);
+        setSyncPassphrase(syncPassphrase);
+        setSyncSecret(syncSecret);
         localStorage.setItem('MST_AUTO_IMPORT_INTERVAL', importInterval);
-        logAction('CONFIG_UPDATE', `Backend URL or Interval (${importInterval}min) updated`);
+        logAction('CONFIG_UPDATE', `Backend (${backend}), URL, Interval (${importInterval}min) entities (${syncEntities.join(', ')}) sync encryption (${syncPassphrase ? 'on' : 'off'}) or request signing (${syncSecret ? 'on' : 'off'}) updated`);
         alert('Nastavení uloženo');
     };
 
+    const toggleSyncEntity = (entity: SyncEntity) => {
+        setLocalSyncEntities(syncEntities.includes(entity)
+            ? syncEntities.filter(e => e !== entity)
+            : [...syncEntities, entity]);
+    };
+
     const toggleEncryption = () => {
         if (!isAdmin) return;
         const newState = !isEncrypted;
@@ -77,15 +131,25 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
         if (!isAdmin) return;
         try {
             const projects = await db.projects.toArray();
+            const trackerTypes = await db.trackerTypes.toArray();
             const tables = await db.projectTables.toArray();
+            const tableHistory = await db.tableHistory.toArray();
+            const issues = await db.issues.toArray();
+            const inverters = await db.inverters.toArray();
+            const combinerBoxes = await db.combinerBoxes.toArray();
             const team = await db.team.toArray();
             const attendance = await db.attendance.toArray();
 
-            const payload = { projects, tables, team, attendance, version: 1, exportedAt: Date.now() };
-            const jsonString = JSON.stringify(payload);
+            const envelope = wrapPayload('backup', { projects, trackerTypes, tables, tableHistory, issues, inverters, combinerBoxes, team, attendance });
+            const jsonString = JSON.stringify(envelope);
             
-            // If encryption "enabled", we mock it by just compressing it (real encryption needs password input)
-            const finalData = isEncrypted ? LZString.compressToEncodedURIComponent(jsonString) : jsonString;
+            // Encrypted backups: compress, then AES with a key derived from the passphrase
+            let finalData = jsonString;
+            if (isEncrypted) {
+                const passphrase = window.prompt('Heslo pro zašifrování zálohy:');
+                if (!passphrase) return;
+                finalData = encryptString(LZString.compressToEncodedURIComponent(jsonString), passphrase);
+            }
             const fileName = `mst_backup_${new Date().toISOString().slice(0,10)}${isEncrypted ? '.mst' : '.json'}`;
 
             const blob = new Blob([finalData], { type: 'application/json' });
@@ -117,26 +181,49 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
         reader.onload = async (e) => {
             try {
                 const content = e.target?.result as string;
-                let data;
+                let raw;
                 
-                // Simple check if compressed
-                if (content.startsWith('{') || content.startsWith('[')) {
-                    data = JSON.parse(content);
+                // Encrypted backup -> compressed JSON, plain JSON, or legacy compressed-only .mst
+                if (isEncryptedData(content)) {
+                    const passphrase = window.prompt('Záloha je zašifrovaná. Zadejte heslo:');
+                    if (passphrase === null) return;
+                    const decompressed = LZString.decompressFromEncodedURIComponent(decryptString(content, passphrase));
+                    if (!decompressed) throw new Error("Nelze dekomprimovat soubor.");
+                    raw = JSON.parse(decompressed);
+                } else if (content.startsWith('{') || content.startsWith('[')) {
+                    raw = JSON.parse(content);
                 } else {
                     const decompressed = LZString.decompressFromEncodedURIComponent(content);
                     if (!decompressed) throw new Error("Nelze dekomprimovat/dešifrovat soubor.");
-                    data = JSON.parse(decompressed);
+                    raw = JSON.parse(decompressed);
                 }
+                // Upgrades backups from older versions, refuses newer ones
+                const data = unwrapPayload(raw).payload;
 
                 if (window.confirm(`Obnovit data ze zálohy? (Projekty: ${data.projects?.length || 0}) \nPOZOR: Přepíše současná data!`)) {
-                     await db.transaction('rw', db.projects, db.projectTables, db.team, db.attendance, async () => {
+                     await db.transaction('rw', [db.projects, db.trackerTypes, db.projectTables, db.tableHistory, db.issues, db.inverters, db.combinerBoxes, db.team, db.attendance, db.conflicts], async () => {
                         await db.projects.clear();
                         await db.projectTables.clear();
+                        await db.tableHistory.clear();
+                        await db.issues.clear();
+                        await db.inverters.clear();
+                        await db.combinerBoxes.clear();
                         await db.team.clear();
                         await db.attendance.clear();
+                        // Pending conflicts refer to records the backup replaces
+                        await db.conflicts.clear();
 
                         if(data.projects) await db.projects.bulkAdd(data.projects);
+                        // Backups from before the catalogue keep the current tracker types
+                        if(data.trackerTypes) {
+                            await db.trackerTypes.clear();
+                            await db.trackerTypes.bulkAdd(data.trackerTypes);
+                        }
                         if(data.tables) await db.projectTables.bulkAdd(data.tables);
+                        if(data.tableHistory) await db.tableHistory.bulkAdd(data.tableHistory);
+                        if(data.issues) await db.issues.bulkAdd(data.issues);
+                        if(data.inverters) await db.inverters.bulkAdd(data.inverters);
+                        if(data.combinerBoxes) await db.combinerBoxes.bulkAdd(data.combinerBoxes);
                         if(data.team) await db.team.bulkAdd(data.team);
                         if(data.attendance) await db.attendance.bulkAdd(data.attendance);
                     });
@@ -144,7 +231,9 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
                     alert('Data úspěšně obnovena.');
                 }
             } catch (err) {
-                alert('Chyba importu: Neplatný formát souboru.');
+                alert(err instanceof PayloadVersionError || err instanceof DecryptionError
+                    ? `Chyba importu: ${err.message}`
+                    : 'Chyba importu: Neplatný formát souboru.');
                 console.error(err);
             }
         };
@@ -192,9 +281,36 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
                 </div>
             </div>
 
-            {/* ADMIN ONLY SECTIONS */}
+            {/* Foremen need offline exchange on site too; the sync journal stays admin only */}
+            <div className="glass-panel p-1.5 flex justify-between items-center shadow-lg bg-white/30 backdrop-blur-2xl">
+                <button
+                    onClick={() => setTab('overview')}
+                    className={`flex-1 flex items-center justify-center py-2 rounded-xl transition-all duration-300 gap-1.5 ${tab === 'overview' ? 'bg-white shadow-sm text-blue-600 scale-[1.02]' : 'text-slate-600 hover:bg-white/20'}`}>
+                    <Database size={16} strokeWidth={2.5} />
+                    <span className="text-[10px] font-bold uppercase tracking-wide">Nastavení</span>
+                </button>
+                <button
+                    onClick={() => setTab('offline')}
+                    className={`flex-1 flex items-center justify-center py-2 rounded-xl transition-all duration-300 gap-1.5 ${tab === 'offline' ? 'bg-white shadow-sm text-blue-600 scale-[1.02]' : 'text-slate-600 hover:bg-white/20'}`}>
+                    <Smartphone size={16} strokeWidth={2.5} />
+                    <span className="text-[10px] font-bold uppercase tracking-wide">Offline</span>
+                </button>
+                {isAdmin && (
+                    <button
+                        onClick={() => setTab('journal')}
+                        className={`flex-1 flex items-center justify-center py-2 rounded-xl transition-all duration-300 gap-1.5 ${tab === 'journal' ? 'bg-white shadow-sm text-blue-600 scale-[1.02]' : 'text-slate-600 hover:bg-white/20'}`}>
+                        <Activity size={16} strokeWidth={2.5} />
+                        <span className="text-[10px] font-bold uppercase tracking-wide">Historie</span>
+                    </button>
+                )}
+            </div>
+
+            {tab === 'offline' && <PeerSync user={user} />}
+
+            {isAdmin && tab === 'journal' && <SyncJournal entityLabels={ENTITY_LABELS} />}
+
             {isAdmin ? (
-                <>
+                tab === 'overview' && <>
                     {/* 2. Backup & Restore */}
                     <div className="glass-panel p-5">
                         <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
@@ -219,13 +335,26 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
                             <CloudLightning size={18} className="text-purple-600" /> Cloud Sync
                         </div>
                         
+                        <div className="grid grid-cols-2 gap-1 bg-white/30 p-1 rounded-xl">
+                            <button
+                                onClick={() => setBackend('apps-script')}
+                                className={`py-1.5 rounded-lg text-xs font-bold transition-colors ${backend === 'apps-script' ? 'bg-white shadow text-purple-700' : 'text-slate-600'}`}>
+                                Google Sheets
+                            </button>
+                            <button
+                                onClick={() => setBackend('server')}
+                                className={`py-1.5 rounded-lg text-xs font-bold transition-colors ${backend === 'server' ? 'bg-white shadow text-purple-700' : 'text-slate-600'}`}>
+                                Lokální server
+                            </button>
+                        </div>
+
                         <div className="relative">
                             <input 
                                 type="text" 
                                 className="glass-input w-full pl-3 pr-10 py-3 text-xs font-mono bg-white/50 focus:bg-white/80 transition-colors"
                                 value={scriptUrl}
                                 onChange={(e) => setLocalScriptUrl(e.target.value)}
-                                placeholder="https://script.google.com/..."
+                                placeholder={backend === 'server' ? 'http://192.168.1.10:8787' : 'https://script.google.com/...'}
                             />
                         </div>
                         
@@ -246,6 +375,51 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
                             </select>
                         </div>
 
+                        <div className="py-2 border-b border-white/20">
+                            <span className="text-sm font-medium text-slate-600">Synchronizovat:</span>
+                            <div className="flex flex-wrap gap-1.5 mt-2">
+                                {SYNC_ENTITIES.map(entity => (
+                                    <button
+                                        key={entity}
+                                        onClick={() => toggleSyncEntity(entity)}
+                                        className={`px-2 py-1 rounded-lg text-[10px] font-bold border transition-colors ${syncEntities.includes(entity) ? 'bg-purple-100 text-purple-700 border-purple-200' : 'bg-white/30 text-slate-400 border-white/30'}`}>
+                                        {ENTITY_LABELS[entity]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between gap-2 py-2 border-b border-white/20">
+                            <div className="flex items-center gap-2 shrink-0">
+                                <Shield size={16} className="text-slate-500"/>
+                                <span className="text-sm font-medium text-slate-600">Klíč backendu:</span>
+                            </div>
+                            <input
+                                type="password"
+                                className="glass-input py-1 px-2 text-xs w-36"
+                                value={syncSecret}
+                                onChange={(e) => setLocalSyncSecret(e.target.value)}
+                                placeholder="Nepodepisovat"
+                            />
+                        </div>
+
+                        <div className="flex items-center justify-between gap-2 py-2 border-b border-white/20">
+                            <div className="flex items-center gap-2 shrink-0">
+                                <Lock size={16} className="text-slate-500"/>
+                                <span className="text-sm font-medium text-slate-600">Heslo sync:</span>
+                            </div>
+                            <input
+                                type="password"
+                                className="glass-input py-1 px-2 text-xs w-36"
+                                value={syncPassphrase}
+                                onChange={(e) => setLocalSyncPassphrase(e.target.value)}
+                                placeholder="Bez šifrování"
+                            />
+                        </div>
+                        {syncPassphrase && (
+                            <p className="text-[10px] text-slate-500 pt-1">Heslo zůstává uložené v tomto zařízení (prohlížeči). Chrání data na serveru, ne v odcizeném nebo sdíleném telefonu.</p>
+                        )}
+
                         <div className="flex gap-2 mt-2">
                             <button onClick={saveSettings} className="glass-button-primary flex-1 py-2 text-xs flex justify-center items-center gap-2 shadow-lg">
                                 <Save size={14} /> Uložit
@@ -256,6 +430,44 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
                         </div>
                     </div>
 
+                    {/* Sync Conflicts */}
+                    {conflicts && conflicts.length > 0 && (
+                        <div className="glass-panel p-5">
+                            <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+                                <AlertTriangle size={20} className="text-amber-500"/> Konflikty synchronizace
+                            </h3>
+                            <p className="text-[10px] text-slate-500 mb-3">Záznamy změněné zároveň v zařízení i v cloudu. Dokud nerozhodnete, platí místní verze.</p>
+                            <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+                                {conflicts.map(c => (
+                                    <div key={c.id} className="bg-white/40 rounded-xl border border-white/30 p-3 text-xs">
+                                        <div className="flex justify-between items-center mb-2">
+                                            <span className="font-bold text-slate-700">{ENTITY_LABELS[c.entity]}</span>
+                                            <span className="font-mono text-[10px] text-slate-400 truncate ml-2">{c.recordId}</span>
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2 mb-2">
+                                            <div className="bg-blue-50/60 rounded-lg p-2">
+                                                <span className="block text-[9px] uppercase font-bold text-slate-400">Místní</span>
+                                                <span className="text-slate-700">{describeRecord(c.local)}</span>
+                                            </div>
+                                            <div className="bg-purple-50/60 rounded-lg p-2">
+                                                <span className="block text-[9px] uppercase font-bold text-slate-400">Cloud</span>
+                                                <span className="text-slate-700">{describeRecord(c.remote)}</span>
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <button onClick={() => handleResolveConflict(c, 'local')} className="glass-button flex-1 py-1.5 text-[10px] font-bold bg-white/40">
+                                                Ponechat místní
+                                            </button>
+                                            <button onClick={() => handleResolveConflict(c, 'remote')} className="glass-button flex-1 py-1.5 text-[10px] font-bold bg-white/40">
+                                                Použít cloud
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* 4. Security & Logs */}
                     <div className="glass-panel p-5">
                         <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
@@ -267,7 +479,7 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
                                 {isEncrypted ? <Lock size={18} className="text-green-600"/> : <Unlock size={18} className="text-slate-400"/>}
                                 <div className="flex flex-col">
                                     <span className="text-sm font-bold text-slate-700">Šifrování dat</span>
-                                    <span className="text-[10px] text-slate-500">AES-256 (Simulace)</span>
+                                    <span className="text-[10px] text-slate-500">Zálohy: AES-256, klíč z hesla (PBKDF2)</span>
                                 </div>
                             </div>
                             <button 
@@ -297,7 +509,7 @@ const DataManagement: React.FC<Props> = ({ user, onLogout }) => {
                 </>
             ) : (
                 // Employee only sees basic manual sync
-                <div className="glass-panel p-5 text-center">
+                tab === 'overview' && <div className="glass-panel p-5 text-center">
                     <p className="text-sm text-slate-600 mb-3">Jste přihlášen jako zaměstnanec.</p>
                     <button onClick={handleSync} className="glass-button w-full py-2 text-xs flex justify-center items-center gap-2 bg-white/40">
                         <RefreshCw size={14} className={syncStatus ? 'animate-spin' : ''} /> {syncStatus || 'Manuální Synchronizace'}
@@ -0,0 +1,175 @@
+import React, { useState, useMemo } from 'react';
+import { CombinerBox, Inverter, PowerConfig, Project, Table } from '../types';
+import { Zap, Plus, Trash2, AlertTriangle, CheckCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { calcTopology, DC_AC_RATIO_MAX, DC_AC_RATIO_MIN, DcAcRatioStatus } from '../logic/electrical';
+import { MAX_SYSTEM_VOLTAGE_V } from '../logic/powerCalc';
+import { TrackerCatalogue } from '../logic/trackerTypes';
+import { addCombinerBox, addInverter, deleteCombinerBoxes, deleteInverter } from '../services/electrical';
+
+const RATIO_BADGES: Record<DcAcRatioStatus, string> = {
+    ok: 'bg-green-100 text-green-700 border-green-200',
+    low: 'bg-amber-100 text-amber-700 border-amber-200',
+    high: 'bg-red-100 text-red-700 border-red-200',
+    empty: 'bg-slate-100 text-slate-500 border-slate-200'
+};
+
+const RATIO_HINTS: Record<DcAcRatioStatus, string> = {
+    ok: '',
+    low: `pod ${DC_AC_RATIO_MIN.toFixed(2)}`,
+    high: `nad ${DC_AC_RATIO_MAX.toFixed(2)}`,
+    empty: 'bez stolů'
+};
+
+interface Props {
+    project: Project;
+    tables: Table[];
+    inverters: Inverter[];
+    boxes: CombinerBox[];
+    trackers: TrackerCatalogue;
+    power: PowerConfig;
+    isAdmin: boolean;
+}
+
+/**
+ * Inverters of a project with their combiner boxes, DC/AC ratio and whether
+ * every table behind them is installed so they can be energized.
+ */
+const ElectricalTopology: React.FC<Props> = ({ project, tables, inverters, boxes, trackers, power, isAdmin }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [newInverter, setNewInverter] = useState({ name: '', acPowerKw: 0 });
+    const [newBoxName, setNewBoxName] = useState('');
+
+    const topology = useMemo(
+        () => calcTopology(tables, inverters, boxes, trackers, power),
+        [tables, inverters, boxes, trackers, power]
+    );
+    const readyCount = topology.inverters.filter(i => i.ready).length;
+
+    const handleAddInverter = async () => {
+        if (!newInverter.name.trim() || !(newInverter.acPowerKw > 0)) return;
+        const inverter = await addInverter(project.id, newInverter.name, newInverter.acPowerKw);
+        setNewInverter({ name: '', acPowerKw: 0 });
+        setExpandedId(inverter.id);
+    };
+
+    const handleAddBox = async (inverter: Inverter) => {
+        if (!newBoxName.trim()) return;
+        if (boxes.some(b => b.name === newBoxName.trim())) {
+            alert('Rozvaděč s tímto názvem už v projektu je.');
+            return;
+        }
+        await addCombinerBox(inverter, newBoxName);
+        setNewBoxName('');
+    };
+
+    const handleDeleteInverter = async (inverter: Inverter) => {
+        if (!window.confirm(`Smazat střídač ${inverter.name} i jeho rozvaděče? Stoly zůstanou nepřiřazené.`)) return;
+        await deleteInverter(inverter.id);
+    };
+
+    const handleDeleteBox = async (box: CombinerBox) => {
+        if (!window.confirm(`Smazat rozvaděč ${box.name}? Jeho stoly zůstanou nepřiřazené.`)) return;
+        await deleteCombinerBoxes([box.id]);
+    };
+
+    if (!isAdmin && inverters.length === 0) return null;
+
+    return (
+        <div className="glass-panel p-4 space-y-3">
+            <div className="flex justify-between items-center">
+                <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Zap size={16}/> Střídače</h3>
+                <span className="text-[10px] font-bold text-slate-500">K zapnutí: {readyCount}/{topology.inverters.length}</span>
+            </div>
+
+            {topology.stringVocExceeded && (
+                <div className="text-[10px] text-red-600 font-bold flex items-center gap-1">
+                    <AlertTriangle size={10}/> Napětí stringu {Math.round(topology.stringVoc)} V je nad {MAX_SYSTEM_VOLTAGE_V} V.
+                </div>
+            )}
+            {topology.unassigned > 0 && inverters.length > 0 && (
+                <div className="text-[10px] text-slate-500">
+                    Nepřiřazených stolů: {topology.unassigned}. Vyberte je v mapě a přiřaďte k rozvaděči.
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {topology.inverters.map(summary => {
+                    const expanded = expandedId === summary.inverter.id;
+                    return (
+                        <div key={summary.inverter.id} className="bg-white/30 rounded-xl p-3 space-y-2">
+                            <button onClick={() => setExpandedId(expanded ? null : summary.inverter.id)} className="w-full flex justify-between items-start text-left gap-2">
+                                <div className="min-w-0">
+                                    <div className="flex flex-wrap items-center gap-1.5 text-[10px] font-bold">
+                                        <span className="text-sm text-slate-800">{summary.inverter.name}</span>
+                                        <span className={`px-2 py-0.5 rounded-md border ${RATIO_BADGES[summary.ratioStatus]}`}>
+                                            DC/AC {summary.ratio !== null ? summary.ratio.toFixed(2) : '—'}
+                                            {RATIO_HINTS[summary.ratioStatus] && ` (${RATIO_HINTS[summary.ratioStatus]})`}
+                                        </span>
+                                        {summary.ready
+                                            ? <span className="px-2 py-0.5 rounded-md border bg-green-500 text-white border-green-600 flex items-center gap-1"><CheckCircle size={10}/> Připraven k zapnutí</span>
+                                            : <span className="px-2 py-0.5 rounded-md border bg-white/50 text-slate-600 border-slate-200">Hotovo {summary.completed}/{summary.tables}</span>}
+                                    </div>
+                                    <div className="text-[10px] text-slate-500 mt-1">
+                                        {summary.dcKwp.toFixed(1)} kWp DC / {summary.inverter.acPowerKw} kW AC • {summary.boxes.length} rozvaděčů
+                                    </div>
+                                </div>
+                                {expanded ? <ChevronUp size={16} className="text-slate-400 shrink-0"/> : <ChevronDown size={16} className="text-slate-400 shrink-0"/>}
+                            </button>
+
+                            {expanded && (
+                                <div className="border-t border-white/30 pt-2 space-y-1 animate-fade-in">
+                                    {summary.boxes.map(({ box, tables: boxTables, completed, strings, dcKwp }) => (
+                                        <div key={box.id} className="flex items-center justify-between gap-2 text-xs">
+                                            <span className="font-bold text-slate-700">{box.name}</span>
+                                            <span className="text-[10px] text-slate-500 flex-1 text-right">
+                                                {strings} str. • {boxTables} stolů ({completed} hotovo) • {dcKwp.toFixed(1)} kWp
+                                            </span>
+                                            {isAdmin && (
+                                                <button onClick={() => handleDeleteBox(box)} className="p-1 text-slate-400 hover:text-red-500"><Trash2 size={12}/></button>
+                                            )}
+                                        </div>
+                                    ))}
+                                    {summary.boxes.length === 0 && <div className="text-[10px] text-slate-400 italic">Žádné rozvaděče.</div>}
+                                    {isAdmin && (
+                                        <div className="flex gap-2 pt-1">
+                                            <input
+                                                className="glass-input flex-1 py-1 px-2 text-xs"
+                                                placeholder="Nový rozvaděč (např. CB01)"
+                                                value={newBoxName}
+                                                onChange={e => setNewBoxName(e.target.value)}
+                                            />
+                                            <button onClick={() => handleAddBox(summary.inverter)} className="bg-blue-500 text-white px-2 rounded-lg"><Plus size={14}/></button>
+                                            <button onClick={() => handleDeleteInverter(summary.inverter)} className="p-1 text-slate-400 hover:text-red-500"><Trash2 size={14}/></button>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {isAdmin && (
+                <div className="flex gap-2">
+                    <input
+                        className="glass-input flex-1 py-1 px-2 text-xs"
+                        placeholder="Nový střídač (např. INV1)"
+                        value={newInverter.name}
+                        onChange={e => setNewInverter({ ...newInverter, name: e.target.value })}
+                    />
+                    <input
+                        type="number"
+                        min={0}
+                        className="glass-input w-24 py-1 px-2 text-xs"
+                        placeholder="kW AC"
+                        value={newInverter.acPowerKw || ''}
+                        onChange={e => setNewInverter({ ...newInverter, acPowerKw: Number(e.target.value) })}
+                    />
+                    <button onClick={handleAddInverter} className="bg-blue-500 text-white px-2 rounded-lg"><Plus size={14}/></button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ElectricalTopology;
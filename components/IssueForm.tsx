@@ -0,0 +1,133 @@
+import React, { useState, useRef } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { IssueCategory, IssueSeverity, Table, UserProfile } from '../types';
+import { X, Camera, AlertTriangle } from 'lucide-react';
+import { ISSUE_CATEGORY_LABELS } from '../logic/mapOverlays';
+import { reportIssue } from '../services/issues';
+
+export const ISSUE_SEVERITY_LABELS: Record<IssueSeverity, string> = {
+    [IssueSeverity.Low]: 'Nízká',
+    [IssueSeverity.Medium]: 'Střední',
+    [IssueSeverity.High]: 'Vysoká',
+    [IssueSeverity.Critical]: 'Kritická'
+};
+
+export const ISSUE_SEVERITY_BADGES: Record<IssueSeverity, string> = {
+    [IssueSeverity.Low]: 'bg-slate-100 text-slate-600 border-slate-200',
+    [IssueSeverity.Medium]: 'bg-amber-100 text-amber-700 border-amber-200',
+    [IssueSeverity.High]: 'bg-orange-100 text-orange-700 border-orange-200',
+    [IssueSeverity.Critical]: 'bg-red-500 text-white border-red-600'
+};
+
+interface Props {
+    tables: Table[];
+    user: UserProfile;
+    onClose: () => void;
+    onReported?: () => void;
+}
+
+const IssueForm: React.FC<Props> = ({ tables, user, onClose, onReported }) => {
+    const [category, setCategory] = useState<IssueCategory>(IssueCategory.MissingPart);
+    const [severity, setSeverity] = useState<IssueSeverity>(IssueSeverity.Medium);
+    const [description, setDescription] = useState('');
+    const [assignee, setAssignee] = useState('');
+    const [photo, setPhoto] = useState<File | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const photoInputRef = useRef<HTMLInputElement>(null);
+    const team = useLiveQuery(() => db.team.toArray());
+
+    const handleSubmit = async () => {
+        setIsSaving(true);
+        try {
+            await reportIssue(tables, { category, severity, description, assignee, photo: photo || undefined }, user.id);
+            onReported?.();
+            onClose();
+        } catch (err) {
+            console.error(err);
+            alert('Problém se nepodařilo uložit.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const tableLabel = tables.length === 1
+        ? `Stůl #${tables[0].index}`
+        : `${tables.length} stolů (#${tables.slice(0, 5).map(t => t.index).join(', #')}${tables.length > 5 ? '…' : ''})`;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="glass-panel w-full max-w-md max-h-[85vh] flex flex-col bg-white/95 shadow-2xl rounded-b-none sm:rounded-b-2xl" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-slate-100 flex justify-between items-start">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><AlertTriangle size={18} className="text-red-500"/> Nahlásit problém</h3>
+                        <p className="text-xs text-slate-500 mt-0.5">{tableLabel}</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20}/></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 ml-1">Kategorie</label>
+                        <select value={category} onChange={e => setCategory(e.target.value as IssueCategory)} className="glass-input w-full mt-1 text-sm font-bold">
+                            {(Object.keys(ISSUE_CATEGORY_LABELS) as IssueCategory[]).map(c => (
+                                <option key={c} value={c}>{ISSUE_CATEGORY_LABELS[c]}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 ml-1">Závažnost</label>
+                        <div className="grid grid-cols-4 gap-1 mt-1">
+                            {(Object.keys(ISSUE_SEVERITY_LABELS) as IssueSeverity[]).map(s => (
+                                <button
+                                    key={s}
+                                    onClick={() => setSeverity(s)}
+                                    className={`py-2 rounded-lg text-[10px] font-bold border transition-all ${severity === s ? ISSUE_SEVERITY_BADGES[s] + ' shadow' : 'bg-white/30 text-slate-500 border-transparent hover:bg-white/50'}`}>
+                                    {ISSUE_SEVERITY_LABELS[s]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 ml-1">Popis</label>
+                        <textarea
+                            value={description}
+                            onChange={e => setDescription(e.target.value)}
+                            rows={3}
+                            placeholder="Co je špatně a co je potřeba…"
+                            className="glass-input w-full mt-1 text-sm resize-none"
+                        />
+                    </div>
+
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 ml-1">Řeší</label>
+                        <select value={assignee} onChange={e => setAssignee(e.target.value)} className="glass-input w-full mt-1 text-sm font-bold">
+                            <option value="">Nepřiřazeno</option>
+                            {(team || []).filter(m => m.isActive).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        </select>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-slate-500 truncate">{photo ? photo.name : 'Bez fotky'}</span>
+                        <button
+                            onClick={() => photoInputRef.current?.click()}
+                            className="text-[10px] bg-blue-500/10 hover:bg-blue-500/20 px-2 py-1 rounded-lg text-blue-700 font-bold transition-colors flex items-center gap-1 shrink-0">
+                            <Camera size={10}/> {photo ? 'Jiná fotka' : 'Vyfotit'}
+                        </button>
+                        <input type="file" ref={photoInputRef} onChange={e => setPhoto(e.target.files?.[0] || null)} className="hidden" accept="image/*" capture="environment" />
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-slate-100">
+                    <button onClick={handleSubmit} disabled={isSaving} className="glass-button-primary w-full py-2.5 text-sm disabled:opacity-50">
+                        {isSaving ? 'Ukládám…' : 'Nahlásit'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default IssueForm;
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Issue, IssueCategory, IssueSeverity, UserProfile } from '../types';
+import { AlertTriangle, CheckCircle, User as UserIcon, MapPin, ChevronDown, ChevronUp } from 'lucide-react';
+import { ISSUE_CATEGORY_LABELS } from '../logic/mapOverlays';
+import { isIssueOpen, resolveIssue, updateIssueAssignee } from '../services/issues';
+import { ISSUE_SEVERITY_BADGES, ISSUE_SEVERITY_LABELS } from './IssueForm';
+
+type StateFilter = 'open' | 'resolved' | 'all';
+
+// Most severe first, then oldest first: what has waited longest gets fixed first
+const SEVERITY_ORDER: IssueSeverity[] = [IssueSeverity.Critical, IssueSeverity.High, IssueSeverity.Medium, IssueSeverity.Low];
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('cs-CZ', { day: 'numeric', month: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface Props {
+    user: UserProfile;
+}
+
+const IssueList: React.FC<Props> = ({ user }) => {
+    const [stateFilter, setStateFilter] = useState<StateFilter>('open');
+    const [projectFilter, setProjectFilter] = useState('');
+    const [categoryFilter, setCategoryFilter] = useState<IssueCategory | ''>('');
+    const [severityFilter, setSeverityFilter] = useState<IssueSeverity | ''>('');
+    const [assigneeFilter, setAssigneeFilter] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [resolution, setResolution] = useState('');
+
+    const issues = useLiveQuery(() => db.issues.orderBy('reportedAt').toArray());
+    const projects = useLiveQuery(() => db.projects.toArray());
+    const team = useLiveQuery(() => db.team.toArray());
+    // Table numbers of the listed issues, resolved lazily from their IDs
+    const tableIndexes = useLiveQuery(async () => {
+        const ids = Array.from(new Set((issues || []).flatMap(i => i.tableIds)));
+        const tables = await db.projectTables.bulkGet(ids);
+        return new Map(tables.filter(Boolean).map(t => [t!.id, t!.index]));
+    }, [issues]);
+    const photos = useLiveQuery(
+        () => (expandedId ? db.tablePhotos.where('issueId').equals(expandedId).toArray() : Promise.resolve([])),
+        [expandedId]
+    );
+
+    const photoUrls = useMemo(() => (photos || []).map(p => URL.createObjectURL(p.blob)), [photos]);
+    useEffect(() => () => photoUrls.forEach(url => URL.revokeObjectURL(url)), [photoUrls]);
+
+    const nameOf = (id?: string) => {
+        if (!id) return '—';
+        if (id === user.id) return user.name;
+        return team?.find(m => m.id === id)?.name || 'Neznámý';
+    };
+    const projectName = (id: string) => projects?.find(p => p.id === id)?.name || 'Neznámý projekt';
+
+    const filtered = useMemo(() => (issues || [])
+        .filter(i => stateFilter === 'all' || (stateFilter === 'open') === isIssueOpen(i))
+        .filter(i => !projectFilter || i.projectId === projectFilter)
+        .filter(i => !categoryFilter || i.category === categoryFilter)
+        .filter(i => !severityFilter || i.severity === severityFilter)
+        .filter(i => !assigneeFilter || (assigneeFilter === '-' ? !i.assignee : i.assignee === assigneeFilter))
+        .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.reportedAt - b.reportedAt),
+        [issues, stateFilter, projectFilter, categoryFilter, severityFilter, assigneeFilter]);
+
+    const openCount = (issues || []).filter(isIssueOpen).length;
+
+    const toggleExpanded = (issue: Issue) => {
+        setExpandedId(expandedId === issue.id ? null : issue.id);
+        setResolution('');
+    };
+
+    const handleResolve = async (issue: Issue) => {
+        await resolveIssue(issue.id, resolution, user.id);
+        setExpandedId(null);
+        setResolution('');
+    };
+
+    const filterSelect = 'bg-white/40 border border-white/30 rounded-xl px-2 py-1.5 text-xs font-bold text-slate-600 outline-none';
+
+    return (
+        <div className="space-y-4 animate-fade-in pb-20">
+            {/* Header / Filter Bar */}
+            <div className="glass-panel p-3 sticky top-20 z-30 flex flex-col gap-3">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <AlertTriangle size={20} className="text-red-500" /> Problémy
+                    </h2>
+                    <span className="text-xs font-bold text-slate-500">Otevřených: {openCount}</span>
+                </div>
+                <div className="grid grid-cols-3 gap-1">
+                    {([['open', 'Otevřené'], ['resolved', 'Vyřešené'], ['all', 'Vše']] as [StateFilter, string][]).map(([value, label]) => (
+                        <button
+                            key={value}
+                            onClick={() => setStateFilter(value)}
+                            className={`py-1.5 rounded-lg text-xs font-bold transition-all ${stateFilter === value ? 'bg-white shadow text-blue-600' : 'bg-white/30 text-slate-500 hover:bg-white/40'}`}>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <select value={projectFilter} onChange={e => setProjectFilter(e.target.value)} className={filterSelect}>
+                        <option value="">Všechny projekty</option>
+                        {(projects || []).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <select value={assigneeFilter} onChange={e => setAssigneeFilter(e.target.value)} className={filterSelect}>
+                        <option value="">Kdokoli</option>
+                        <option value="-">Nepřiřazené</option>
+                        {(team || []).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                    <select value={categoryFilter} onChange={e => setCategoryFilter(e.target.value as IssueCategory | '')} className={filterSelect}>
+                        <option value="">Všechny kategorie</option>
+                        {(Object.keys(ISSUE_CATEGORY_LABELS) as IssueCategory[]).map(c => <option key={c} value={c}>{ISSUE_CATEGORY_LABELS[c]}</option>)}
+                    </select>
+                    <select value={severityFilter} onChange={e => setSeverityFilter(e.target.value as IssueSeverity | '')} className={filterSelect}>
+                        <option value="">Všechny závažnosti</option>
+                        {SEVERITY_ORDER.map(s => <option key={s} value={s}>{ISSUE_SEVERITY_LABELS[s]}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            {/* LIST */}
+            <div className="grid gap-3">
+                {filtered.map(issue => {
+                    const open = isIssueOpen(issue);
+                    const expanded = expandedId === issue.id;
+                    const tableNumbers = issue.tableIds.map(id => tableIndexes?.get(id)).filter(i => i !== undefined);
+                    return (
+                        <div key={issue.id} className={`glass-panel p-4 flex flex-col gap-2 ${open ? '' : 'opacity-70'}`}>
+                            <button onClick={() => toggleExpanded(issue)} className="flex justify-between items-start text-left gap-2">
+                                <div className="min-w-0">
+                                    <div className="flex flex-wrap items-center gap-1.5 text-[10px] font-bold">
+                                        <span className={`px-2 py-0.5 rounded-md border uppercase ${ISSUE_SEVERITY_BADGES[issue.severity]}`}>{ISSUE_SEVERITY_LABELS[issue.severity]}</span>
+                                        <span className="px-2 py-0.5 rounded-md border bg-white/50 text-slate-700 border-slate-200">{ISSUE_CATEGORY_LABELS[issue.category]}</span>
+                                        {!open && <span className="px-2 py-0.5 rounded-md border bg-green-100 text-green-700 border-green-200">Vyřešeno</span>}
+                                    </div>
+                                    <h3 className="font-bold text-slate-800 text-sm mt-1.5">{issue.description || 'Bez popisu'}</h3>
+                                    <p className="text-[10px] text-slate-500 font-medium mt-0.5 flex items-center gap-1">
+                                        <MapPin size={10}/> {projectName(issue.projectId)} • Stůl #{tableNumbers.join(', #') || '?'}
+                                    </p>
+                                </div>
+                                {expanded ? <ChevronUp size={16} className="text-slate-400 shrink-0"/> : <ChevronDown size={16} className="text-slate-400 shrink-0"/>}
+                            </button>
+                            <div className="flex justify-between text-[10px] text-slate-500">
+                                <span>Nahlásil {nameOf(issue.reportedBy)} • {formatTime(issue.reportedAt)}</span>
+                                <span className="flex items-center gap-1"><UserIcon size={10}/> {issue.assignee ? nameOf(issue.assignee) : 'Nepřiřazeno'}</span>
+                            </div>
+
+                            {expanded && (
+                                <div className="border-t border-white/30 pt-2 space-y-2 animate-fade-in">
+                                    {photoUrls.length > 0 && (
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {photoUrls.map(url => (
+                                                <a key={url} href={url} target="_blank" rel="noreferrer" className="aspect-square rounded-lg overflow-hidden border border-slate-200 bg-slate-100">
+                                                    <img src={url} alt="" className="w-full h-full object-cover"/>
+                                                </a>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {open ? (
+                                        <>
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="text-xs font-bold text-slate-500">Řeší</span>
+                                                <select
+                                                    value={issue.assignee || ''}
+                                                    onChange={e => updateIssueAssignee(issue.id, e.target.value)}
+                                                    className="glass-input py-1 px-2 text-xs font-bold flex-1">
+                                                    <option value="">Nepřiřazeno</option>
+                                                    {(team || []).filter(m => m.isActive || m.id === issue.assignee).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                                </select>
+                                            </div>
+                                            <textarea
+                                                value={resolution}
+                                                onChange={e => setResolution(e.target.value)}
+                                                rows={2}
+                                                placeholder="Jak byl problém vyřešen…"
+                                                className="glass-input w-full text-sm resize-none"
+                                            />
+                                            <button onClick={() => handleResolve(issue)} className="bg-green-500 hover:bg-green-600 text-white w-full py-2 rounded-xl text-xs font-bold flex justify-center items-center gap-1 transition-colors">
+                                                <CheckCircle size={14}/> Vyřešeno, vrátit stoly do původního stavu
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <div className="bg-green-50/60 border border-green-100 p-2 rounded-lg text-xs text-green-800">
+                                            <div className="font-bold">Vyřešil {nameOf(issue.resolvedBy)} • {formatTime(issue.resolvedAt!)}</div>
+                                            {issue.resolution && <div className="mt-0.5">{issue.resolution}</div>}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                {filtered.length === 0 && (
+                    <div className="text-center text-sm text-slate-400 italic py-8">Žádné problémy.</div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default IssueList;
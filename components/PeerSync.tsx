@@ -0,0 +1,281 @@
+import React, { useState, useRef, useEffect } from 'react';
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { db } from '../db';
+import {
+    Download, Upload, QrCode, Camera, ChevronLeft, ChevronRight, X, Smartphone
+} from 'lucide-react';
+import { buildPeerPacket, importPeerPacket, getPeers, splitIntoFrames, FrameAssembler, PeerPacketError } from '../services/peerSync';
+import { PayloadVersionError } from '../logic/payloadSchema';
+import { DecryptionError } from '../services/encryption';
+import { UserProfile } from '../types';
+
+// How long each QR frame stays on screen while the sequence loops
+const FRAME_INTERVAL_MS = 900;
+
+interface Props {
+    user: UserProfile;
+}
+
+const PeerSync: React.FC<Props> = ({ user }) => {
+    const [peers, setPeers] = useState(getPeers());
+    const [peerId, setPeerId] = useState('');
+    const [status, setStatus] = useState('');
+    const [frames, setFrames] = useState<string[]>([]);
+    const [frameIndex, setFrameIndex] = useState(0);
+    const [isAutoPlay, setIsAutoPlay] = useState(true);
+    const [qrImage, setQrImage] = useState('');
+    const [isScanning, setIsScanning] = useState(false);
+    const [scanProgress, setScanProgress] = useState('');
+
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    const logAction = async (action: string, details: string) => {
+        await db.logs.add({
+            action,
+            details,
+            timestamp: Date.now(),
+            user: user.name
+        });
+    };
+
+    // Render the current frame; loop through the sequence so the other phone can catch up
+    useEffect(() => {
+        if (frames.length === 0) return;
+        QRCode.toDataURL(frames[frameIndex], { errorCorrectionLevel: 'L', margin: 2, width: 320 })
+            .then(setQrImage)
+            .catch(err => console.error(err));
+    }, [frames, frameIndex]);
+
+    useEffect(() => {
+        if (frames.length <= 1 || !isAutoPlay) return;
+        const id = setInterval(() => setFrameIndex(i => (i + 1) % frames.length), FRAME_INTERVAL_MS);
+        return () => clearInterval(id);
+    }, [frames, isAutoPlay]);
+
+    const packetMessage = (count: number) => peerId
+        ? `${count} změn pro ${peers[peerId]?.name || 'zařízení'}`
+        : `${count} záznamů (kompletní balíček)`;
+
+    const handleExportFile = async () => {
+        const packet = await buildPeerPacket(user.name, peerId || undefined);
+        const fileName = `mst_packet_${new Date().toISOString().slice(0, 16).replace(/[-:T]/g, '')}.mstp`;
+        const blob = new Blob([packet.data], { type: 'text/plain' });
+        const href = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = href;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        setStatus(packetMessage(packet.recordCount));
+        logAction('PEER_EXPORT', `Offline packet ${fileName}: ${packet.recordCount} records`);
+    };
+
+    const handleShowQr = async () => {
+        const packet = await buildPeerPacket(user.name, peerId || undefined);
+        setFrames(splitIntoFrames(packet.data));
+        setFrameIndex(0);
+        setIsAutoPlay(true);
+        setStatus(packetMessage(packet.recordCount));
+        logAction('PEER_EXPORT', `Offline packet as QR: ${packet.recordCount} records`);
+    };
+
+    const closeQr = () => {
+        setFrames([]);
+        setQrImage('');
+    };
+
+    const handleImport = async (data: string) => {
+        try {
+            const result = await importPeerPacket(data);
+            setPeers(getPeers());
+            const conflictNote = result.conflicts > 0 ? `, ${result.conflicts} konfliktů čeká na vyřešení` : '';
+            setStatus(`Od ${result.peer.name}: ${result.applied} změn použito${conflictNote}.`);
+            logAction('PEER_IMPORT', `Offline packet from ${result.peer.name} (${result.peer.deviceId}): ${result.applied} applied, ${result.deleted} deleted, ${result.conflicts} conflicts`);
+        } catch (err) {
+            console.error(err);
+            setStatus(err instanceof PeerPacketError || err instanceof PayloadVersionError || err instanceof DecryptionError
+                ? `Chyba importu: ${err.message}`
+                : 'Chyba importu balíčku.');
+        }
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => handleImport(e.target?.result as string);
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    // Camera scanning: decode video frames until every QR frame of one packet has been seen
+    useEffect(() => {
+        if (!isScanning) return;
+        const assembler = new FrameAssembler();
+        let stream: MediaStream | null = null;
+        let rafId = 0;
+        let stopped = false;
+
+        const scan = () => {
+            if (stopped) return;
+            const video = videoRef.current;
+            const canvas = canvasRef.current;
+            if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+                const ctx = canvas.getContext('2d', { willReadFrequently: true });
+                if (ctx) {
+                    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+                    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+                    const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+                    if (code && assembler.add(code.data)) {
+                        setScanProgress(`${assembler.received} / ${assembler.expected}`);
+                        if (assembler.isComplete) {
+                            setIsScanning(false);
+                            handleImport(assembler.assemble());
+                            return;
+                        }
+                    }
+                }
+            }
+            rafId = requestAnimationFrame(scan);
+        };
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+            .then(s => {
+                stream = s;
+                if (stopped) {
+                    s.getTracks().forEach(t => t.stop());
+                    return;
+                }
+                if (videoRef.current) {
+                    videoRef.current.srcObject = s;
+                    videoRef.current.play();
+                }
+                rafId = requestAnimationFrame(scan);
+            })
+            .catch(err => {
+                console.error(err);
+                setStatus('Kamera není dostupná.');
+                setIsScanning(false);
+            });
+
+        return () => {
+            stopped = true;
+            cancelAnimationFrame(rafId);
+            stream?.getTracks().forEach(t => t.stop());
+        };
+    }, [isScanning]);
+
+    const startScan = () => {
+        setScanProgress('');
+        setStatus('');
+        setIsScanning(true);
+    };
+
+    const peerList = Object.values(peers).sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+
+    return (
+        <div className="space-y-4">
+            <div className="glass-panel p-5 space-y-3">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <Smartphone size={20} className="text-emerald-600"/> Offline výměna
+                    </h3>
+                    <p className="text-[10px] text-slate-500">Stoly a docházka mezi dvěma telefony bez internetu. Balíček obsahuje jen změny, které druhé zařízení ještě nemá.</p>
+                </div>
+
+                <div className="flex items-center justify-between gap-2 py-2 border-b border-white/20">
+                    <span className="text-sm font-medium text-slate-600">Pro zařízení:</span>
+                    <select
+                        value={peerId}
+                        onChange={(e) => setPeerId(e.target.value)}
+                        className="glass-input py-1 px-2 text-xs font-bold w-44"
+                    >
+                        <option value="">Nové zařízení (vše)</option>
+                        {peerList.map(p => (
+                            <option key={p.deviceId} value={p.deviceId}>{p.name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex gap-3">
+                    <button onClick={handleExportFile} className="flex-1 glass-button py-3 flex flex-col items-center gap-1 hover:bg-white/50">
+                        <Download size={20} className="text-blue-600" />
+                        <span className="text-xs font-bold text-slate-700">Soubor</span>
+                    </button>
+                    <button onClick={handleShowQr} className="flex-1 glass-button py-3 flex flex-col items-center gap-1 hover:bg-white/50">
+                        <QrCode size={20} className="text-blue-600" />
+                        <span className="text-xs font-bold text-slate-700">QR kódy</span>
+                    </button>
+                </div>
+
+                <div className="flex gap-3">
+                    <button onClick={() => fileInputRef.current?.click()} className="flex-1 glass-button py-3 flex flex-col items-center gap-1 hover:bg-white/50">
+                        <Upload size={20} className="text-green-600" />
+                        <span className="text-xs font-bold text-slate-700">Načíst soubor</span>
+                    </button>
+                    <button onClick={startScan} className="flex-1 glass-button py-3 flex flex-col items-center gap-1 hover:bg-white/50">
+                        <Camera size={20} className="text-green-600" />
+                        <span className="text-xs font-bold text-slate-700">Skenovat QR</span>
+                    </button>
+                    <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".mstp,.txt" />
+                </div>
+
+                {status && <p className="text-xs font-bold text-slate-600 text-center">{status}</p>}
+            </div>
+
+            {peerList.length > 0 && (
+                <div className="glass-panel p-5">
+                    <h4 className="text-xs font-bold text-slate-600 mb-2">Známá zařízení</h4>
+                    <div className="space-y-1.5">
+                        {peerList.map(p => (
+                            <div key={p.deviceId} className="flex justify-between items-center text-[10px] bg-white/40 rounded-lg px-3 py-2 border border-white/30">
+                                <span className="font-bold text-slate-700">{p.name}</span>
+                                <span className="text-slate-500">
+                                    Přijato {p.received ? new Date(p.received).toLocaleString() : '—'} • Potvrzeno {p.delivered ? new Date(p.delivered).toLocaleString() : '—'}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* QR sequence overlay */}
+            {frames.length > 0 && (
+                <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={closeQr}>
+                    <div className="bg-white rounded-2xl p-4 w-full max-w-sm" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="text-sm font-bold text-slate-700">Kód {frameIndex + 1} / {frames.length}</span>
+                            <button onClick={closeQr} className="text-slate-400 hover:text-slate-700"><X size={20} /></button>
+                        </div>
+                        {qrImage && <img src={qrImage} alt={`QR ${frameIndex + 1}`} className="w-full aspect-square" />}
+                        {frames.length > 1 && (
+                            <div className="flex gap-2 mt-3">
+                                <button onClick={() => { setIsAutoPlay(false); setFrameIndex(i => (i - 1 + frames.length) % frames.length); }} className="glass-button flex-1 py-2 flex justify-center"><ChevronLeft size={16} /></button>
+                                <button onClick={() => setIsAutoPlay(!isAutoPlay)} className="glass-button flex-1 py-2 text-xs font-bold">{isAutoPlay ? 'Pauza' : 'Přehrát'}</button>
+                                <button onClick={() => { setIsAutoPlay(false); setFrameIndex(i => (i + 1) % frames.length); }} className="glass-button flex-1 py-2 flex justify-center"><ChevronRight size={16} /></button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Camera scanner overlay */}
+            {isScanning && (
+                <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center">
+                    <video ref={videoRef} className="w-full max-w-md" playsInline muted />
+                    <canvas ref={canvasRef} className="hidden" />
+                    <p className="text-white text-sm font-bold mt-4">{scanProgress ? `Načteno ${scanProgress}` : 'Namiřte na QR kód'}</p>
+                    <button onClick={() => setIsScanning(false)} className="mt-4 px-6 py-2 rounded-xl bg-white/20 text-white text-sm font-bold">Zrušit</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PeerSync;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { ModuleSpec, PowerConfig } from '../types';
+import { AlertTriangle } from 'lucide-react';
+import { calcStringVoc, MAX_SYSTEM_VOLTAGE_V, MODULE_PRESETS } from '../logic/powerCalc';
+
+interface Props {
+    value: PowerConfig;
+    onChange: (value: PowerConfig) => void;
+}
+
+const NUMBER_FIELDS: { key: keyof Omit<ModuleSpec, 'name'>; label: string; step: number }[] = [
+    { key: 'powerW', label: 'Výkon (Wp)', step: 5 },
+    { key: 'vocV', label: 'Voc (V)', step: 0.1 },
+    { key: 'iscA', label: 'Isc (A)', step: 0.1 },
+    { key: 'widthMm', label: 'Šířka (mm)', step: 1 },
+    { key: 'lengthMm', label: 'Délka (mm)', step: 1 }
+];
+
+/**
+ * Module datasheet and string length of a project; presets fill in the datasheet.
+ */
+const PowerConfigFields: React.FC<Props> = ({ value, onChange }) => {
+    const preset = MODULE_PRESETS.findIndex(m => NUMBER_FIELDS.every(f => m[f.key] === value.module[f.key]));
+    const stringVoc = calcStringVoc(value);
+
+    const setModule = (changes: Partial<ModuleSpec>) => {
+        // Edited values no longer match the preset they started from
+        const powerW = changes.powerW ?? value.module.powerW;
+        onChange({ ...value, module: { ...value.module, ...changes, name: `${powerW} Wp` } });
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label className="text-xs font-bold text-slate-500 ml-1">Panel</label>
+                    <select
+                        className="glass-input w-full mt-1 text-sm"
+                        value={preset}
+                        onChange={e => {
+                            const index = Number(e.target.value);
+                            if (index >= 0) onChange({ ...value, module: MODULE_PRESETS[index] });
+                        }}>
+                        {MODULE_PRESETS.map((m, i) => <option key={m.name} value={i}>{m.name}</option>)}
+                        <option value={-1}>Vlastní ({value.module.powerW} Wp)</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="text-xs font-bold text-slate-500 ml-1">Panelů ve stringu</label>
+                    <input
+                        type="number"
+                        min={1}
+                        className="glass-input w-full mt-1 text-sm"
+                        value={value.panelsPerString}
+                        onChange={e => onChange({ ...value, panelsPerString: Math.max(1, Math.round(Number(e.target.value))) })}
+                    />
+                </div>
+            </div>
+            <div className="grid grid-cols-5 gap-1">
+                {NUMBER_FIELDS.map(field => (
+                    <div key={field.key}>
+                        <label className="text-[10px] font-bold text-slate-500 ml-1 whitespace-nowrap">{field.label}</label>
+                        <input
+                            type="number"
+                            step={field.step}
+                            min={0}
+                            className="glass-input w-full mt-1 text-xs px-1.5"
+                            value={value.module[field.key]}
+                            onChange={e => setModule({ [field.key]: Number(e.target.value) })}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className={`text-[10px] flex items-center gap-1 ${stringVoc > MAX_SYSTEM_VOLTAGE_V ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+                {stringVoc > MAX_SYSTEM_VOLTAGE_V && <AlertTriangle size={10} />}
+                String: {(value.module.powerW * value.panelsPerString / 1000).toFixed(1)} kWp, Voc {Math.round(stringVoc)} V
+                {stringVoc > MAX_SYSTEM_VOLTAGE_V && ` (nad ${MAX_SYSTEM_VOLTAGE_V} V)`}
+            </div>
+        </div>
+    );
+};
+
+export default PowerConfigFields;
@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { PowerConfig, Table, TableStatus } from '../types';
+import { TrendingUp, AlertTriangle, CheckCircle } from 'lucide-react';
+import { calcSingleTableKwp } from '../logic/powerCalc';
+import { TrackerCatalogue, trackerOf } from '../logic/trackerTypes';
+import { calcForecast, dateToDay, startOfDay, VELOCITY_WINDOW_DAYS } from '../logic/forecast';
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = { left: 6, right: 6, top: 10, bottom: 16 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('cs-CZ', { day: 'numeric', month: 'numeric', year: 'numeric' });
+
+interface Props {
+    tables: Table[];
+    trackers: TrackerCatalogue;
+    power: PowerConfig;
+    deadline?: string;
+}
+
+/**
+ * Burn-up of installed kWp with the projected finish and its confidence band.
+ */
+const ProjectForecast: React.FC<Props> = ({ tables, trackers, power, deadline }) => {
+    const { forecast, totalKwp } = useMemo(() => {
+        let total = 0;
+        const completions: { completedAt: number; kwp: number }[] = [];
+        for (const table of tables) {
+            const kwp = calcSingleTableKwp(trackerOf(trackers, table.type), power);
+            total += kwp;
+            if (table.status === TableStatus.Completed && table.completedAt) completions.push({ completedAt: table.completedAt, kwp });
+        }
+        return {
+            forecast: calcForecast(completions, tables.length, Date.now(), deadline ? dateToDay(deadline) : undefined),
+            totalKwp: total
+        };
+    }, [tables, trackers, power, deadline]);
+
+    if (tables.length === 0) return null;
+
+    const { burnUp, velocity, expected, early, late, slipDays, stalled, atRisk } = forecast;
+    const today = startOfDay(Date.now());
+    const deadlineDay = deadline ? dateToDay(deadline) : undefined;
+    const finished = forecast.remaining === 0;
+
+    // Time axis from the first completion to the latest date worth showing, at least one day long
+    const start = burnUp.length > 0 ? burnUp[0].day : today;
+    const end = Math.max(today, late ?? 0, deadlineDay ?? 0, start + DAY_MS);
+    const x = (day: number) => PAD.left + (day - start) / (end - start) * (WIDTH - PAD.left - PAD.right);
+    const y = (kwp: number) => HEIGHT - PAD.bottom - (totalKwp > 0 ? kwp / totalKwp : 0) * (HEIGHT - PAD.top - PAD.bottom);
+    const current = burnUp.length > 0 ? burnUp[burnUp.length - 1] : null;
+
+    const actualPath = burnUp.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.day).toFixed(1)},${y(p.kwp).toFixed(1)}`).join(' ');
+
+    return (
+        <div className="glass-panel p-4 space-y-3">
+            <div className="flex justify-between items-center">
+                <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><TrendingUp size={16}/> Prognóza dokončení</h3>
+                {velocity && (
+                    <span className="text-[10px] font-bold text-slate-500">
+                        {velocity.tablesPerDay.toFixed(1)} stolů/den • {velocity.kwpPerDay.toFixed(0)} kWp/den
+                    </span>
+                )}
+            </div>
+
+            {burnUp.length > 0 ? (
+                <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+                    <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(totalKwp)} y2={y(totalKwp)} stroke="#94a3b8" strokeDasharray="2 3" strokeWidth={1} />
+                    <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#cbd5e1" strokeWidth={1} />
+                    {current && !finished && early !== null && late !== null && expected !== null && (
+                        <>
+                            <polygon
+                                points={`${x(today)},${y(current.kwp)} ${x(early)},${y(totalKwp)} ${x(late)},${y(totalKwp)}`}
+                                fill="#3b82f6"
+                                fillOpacity={0.15}
+                            />
+                            <line x1={x(today)} y1={y(current.kwp)} x2={x(expected)} y2={y(totalKwp)} stroke="#3b82f6" strokeDasharray="4 3" strokeWidth={1.5} />
+                        </>
+                    )}
+                    {deadlineDay !== undefined && (
+                        <line x1={x(deadlineDay)} x2={x(deadlineDay)} y1={PAD.top} y2={y(0)} stroke={slipDays !== null && slipDays > 0 ? '#ef4444' : '#16a34a'} strokeWidth={1.5} />
+                    )}
+                    <path d={actualPath} fill="none" stroke="#2563eb" strokeWidth={2} />
+                    <text x={PAD.left} y={HEIGHT - 3} fontSize={8} fill="#64748b">{formatDate(start)}</text>
+                    <text x={WIDTH - PAD.right} y={HEIGHT - 3} fontSize={8} fill="#64748b" textAnchor="end">{formatDate(end)}</text>
+                </svg>
+            ) : (
+                <div className="text-xs text-slate-400 italic">Zatím není hotový žádný stůl.</div>
+            )}
+
+            <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-white/30 rounded-lg p-2">
+                    <div className="text-[10px] uppercase font-bold text-slate-400">Zbývá</div>
+                    <div className="font-mono font-bold text-slate-700 text-sm">{forecast.remaining}</div>
+                </div>
+                <div className="bg-white/30 rounded-lg p-2">
+                    <div className="text-[10px] uppercase font-bold text-slate-400">{finished ? 'Dokončeno' : 'Odhad'}</div>
+                    <div className="font-mono font-bold text-slate-700 text-sm">{expected !== null ? formatDate(expected) : '—'}</div>
+                </div>
+                <div className="bg-white/30 rounded-lg p-2">
+                    <div className="text-[10px] uppercase font-bold text-slate-400">Termín</div>
+                    <div className="font-mono font-bold text-slate-700 text-sm">{deadlineDay !== undefined ? formatDate(deadlineDay) : '—'}</div>
+                </div>
+            </div>
+
+            {!finished && early !== null && late !== null && (
+                <div className="text-[10px] text-slate-500">
+                    Rozpětí (80 %): {formatDate(early)} – {formatDate(late)}, podle posledních {velocity?.days ?? VELOCITY_WINDOW_DAYS} dní.
+                </div>
+            )}
+            {!finished && burnUp.length > 0 && expected === null && (
+                <div className="text-[10px] text-amber-600 font-bold">Za posledních {velocity?.days ?? VELOCITY_WINDOW_DAYS} dní se nic nedokončilo, termín nelze odhadnout.</div>
+            )}
+            {stalled && atRisk && slipDays !== null && (
+                <div className="bg-red-50 border border-red-200 text-red-700 text-xs font-bold p-2 rounded-lg flex items-center gap-2">
+                    <AlertTriangle size={14}/> {slipDays > 0 ? `Práce stojí a termín uplynul před ${slipDays} dny.` : `Práce stojí, do termínu zbývá ${-slipDays} dní.`}
+                </div>
+            )}
+            {!stalled && slipDays !== null && slipDays > 0 && (
+                <div className="bg-red-50 border border-red-200 text-red-700 text-xs font-bold p-2 rounded-lg flex items-center gap-2">
+                    <AlertTriangle size={14}/> {finished ? 'Dokončeno' : 'Prognóza je'} {slipDays} dní po termínu.
+                </div>
+            )}
+            {!stalled && slipDays !== null && slipDays <= 0 && (
+                <div className="text-[10px] text-green-700 font-bold flex items-center gap-1">
+                    <CheckCircle size={12}/> {finished ? 'Dokončeno v termínu.' : `V termínu, rezerva ${-slipDays} dní.`}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProjectForecast;
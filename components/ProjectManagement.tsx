@@ -1,31 +1,108 @@
-import React, { useState, useEffect } from 'react';
-import { db } from '../db';
-import { Project, Table, TableType, TableStatus, UserProfile, TeamMember } from '../types';
-import CanvasMap from './CanvasMap';
-import { calcProjectStats } from '../logic/powerCalc';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { db, deleteSynced } from '../db';
+import { Project, Table, TableStatus, UserProfile, TeamMember, StageDefinition, PowerConfig } from '../types';
+import CanvasMap, { LayoutChanges } from './CanvasMap';
+import { calcProjectStats, DEFAULT_POWER_CONFIG, projectPowerConfig } from '../logic/powerCalc';
+import { LayoutParseError, SiteLayout, parseSiteLayout } from '../logic/layoutImport';
+import { DEFAULT_STAGES, projectStages, stagesForStatus, toggleStage } from '../logic/stages';
+import { buildCatalogue, countByType, TrackerCatalogue, totalTables } from '../logic/trackerTypes';
+import { deleteHistoryOfTables, recordStatusChanges } from '../services/tableHistory';
+import { deletePhotosOfTables } from '../services/tablePhotos';
+import { openIssuesOfTables } from '../services/issues';
+import TableDetailSheet from './TableDetailSheet';
+import IssueForm from './IssueForm';
+import PowerConfigFields from './PowerConfigFields';
+import TrackerCatalogueEditor from './TrackerCatalogue';
+import ElectricalTopology from './ElectricalTopology';
+import ProjectForecast from './ProjectForecast';
+import { calcForecast, dateToDay } from '../logic/forecast';
+import { assignTablesToBox, deleteProjectTopology } from '../services/electrical';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { Plus, MapPin, ArrowLeft, CheckCircle, AlertCircle, LayoutList, Trash2, Search, Pencil, X, Check, Lock, Users, User, Briefcase, Zap } from 'lucide-react';
+import { Plus, MapPin, ArrowLeft, CheckCircle, AlertCircle, LayoutList, Trash2, Search, Pencil, X, Check, Lock, Users, User, Briefcase, Zap, Upload, ListChecks, ChevronUp, ChevronDown, Layers } from 'lucide-react';
 
 const generateId = () => {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
 };
 
+/**
+ * Turns an imported layout into table records. Tables matched by index keep
+ * their ID and progress, so a corrected layout can be re-imported mid-build.
+ * Tables added by a re-import get fresh IDs: an earlier table with the same
+ * index may have been deleted, and its tombstone would delete the new one too.
+ */
+const tablesFromLayout = (projectId: string, layout: SiteLayout, existing: Table[] = []): Table[] => {
+    const byIndex = new Map(existing.map(t => [t.index, t]));
+    return layout.tables.map(entry => {
+        const current = byIndex.get(entry.index);
+        return {
+            ...current,
+            id: current?.id || (existing.length > 0 ? uuidv4() : `${projectId}_${entry.index}`),
+            projectId,
+            index: entry.index,
+            type: entry.type,
+            status: current?.status ?? TableStatus.Pending,
+            x: entry.x,
+            y: entry.y,
+            row: entry.row,
+            block: entry.block
+        };
+    });
+};
+
+const readLayoutFile = (file: File, catalogue: TrackerCatalogue): Promise<SiteLayout> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                resolve(parseSiteLayout(file.name, e.target?.result as string, catalogue));
+            } catch (err) {
+                reject(err);
+            }
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsText(file);
+    });
+};
+
+const layoutErrorMessage = (err: unknown) => {
+    return err instanceof LayoutParseError ? `Chyba layoutu: ${err.message}` : 'Chyba layoutu: Neplatný formát souboru.';
+};
+
 interface Props {
     user: UserProfile;
 }
 
 const ProjectManagement: React.FC<Props> = ({ user }) => {
-  const [view, setView] = useState<'list' | 'create' | 'detail'>('list');
+  const [view, setView] = useState<'list' | 'create' | 'detail' | 'trackers'>('list');
   const [activeProject, setActiveProject] = useState<Project | null>(null);
-  const [form, setForm] = useState({ name: '', location: '', small: 0, medium: 0, large: 0 });
+  const [form, setForm] = useState<{ name: string; location: string; deadline: string; counts: Record<string, number> }>({ name: '', location: '', deadline: '', counts: {} });
+  const [formPower, setFormPower] = useState<PowerConfig>(DEFAULT_POWER_CONFIG);
+  const [layout, setLayout] = useState<SiteLayout | null>(null);
+  const [layoutFileName, setLayoutFileName] = useState('');
+  const createLayoutInputRef = useRef<HTMLInputElement>(null);
+  const detailLayoutInputRef = useRef<HTMLInputElement>(null);
   
   // Search and Filter State
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Table[]>([]);
+  const [mapFocus, setMapFocus] = useState<{ tableId: string; at: number } | undefined>();
+  const [detailTableId, setDetailTableId] = useState<string | null>(null);
+
+  // Installation stages: the map can be switched to one stage, taps then tick it off
+  const [activeStage, setActiveStage] = useState<string | null>(null);
+  const [stageDraft, setStageDraft] = useState<StageDefinition[] | null>(null);
   
   // Edit Mode State in Detail
   const [isEditing, setIsEditing] = useState(false);
-  const [editForm, setEditForm] = useState({ name: '', location: '' });
+  const [editForm, setEditForm] = useState<{ name: string; location: string; deadline: string; power: PowerConfig }>({ name: '', location: '', deadline: '', power: DEFAULT_POWER_CONFIG });
+
+  // Bulk actions on tables picked in the map
+  const [selectedTableIds, setSelectedTableIds] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState<TableStatus>(TableStatus.Completed);
+  const [bulkInstaller, setBulkInstaller] = useState('');
+  const [issueTables, setIssueTables] = useState<Table[] | null>(null); // Tables of the issue being reported
+  const [bulkBoxId, setBulkBoxId] = useState('');
 
   // Team Assignment State
   const [showAssignModal, setShowAssignModal] = useState(false);
@@ -35,10 +112,59 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
 
   const projects = useLiveQuery(() => db.projects.toArray());
   const allTeam = useLiveQuery(() => db.team.toArray());
+  const trackerTypes = useLiveQuery(() => db.trackerTypes.toArray());
+  const trackers = useMemo(() => buildCatalogue(trackerTypes), [trackerTypes]);
+
+  // completedBy holds a team member ID or the ID of the logged-in user
+  const memberNames = useMemo(() => {
+      const names: Record<string, string> = { [user.id]: user.name };
+      (allTeam || []).forEach(m => { names[m.id] = m.name; });
+      return names;
+  }, [allTeam, user.id, user.name]);
   const activeTables = useLiveQuery(
     () => activeProject ? db.projectTables.where('projectId').equals(activeProject.id).toArray() : Promise.resolve([]),
     [activeProject]
   );
+  // Completed tables of all projects, only needed for the deadline badges of the list
+  const completedTables = useLiveQuery(
+    () => view === 'list' && projects?.some(p => p.deadline)
+      ? db.projectTables.where('status').equals(TableStatus.Completed).toArray()
+      : Promise.resolve([] as Table[]),
+    [view, projects]
+  );
+  // Badge text of projects whose deadline is in danger
+  const deadlineWarnings = useMemo(() => {
+    const byProject = new Map<string, { completedAt: number; kwp: number }[]>();
+    (completedTables || []).forEach(t => {
+      if (!t.completedAt) return;
+      const list = byProject.get(t.projectId) || [];
+      list.push({ completedAt: t.completedAt, kwp: 0 }); // The slip only depends on table counts
+      byProject.set(t.projectId, list);
+    });
+    const warnings = new Map<string, string>();
+    (projects || []).forEach(p => {
+      if (!p.deadline) return;
+      const forecast = calcForecast(byProject.get(p.id) || [], totalTables(p.tableCounts), Date.now(), dateToDay(p.deadline));
+      if (!forecast.atRisk) return;
+      warnings.set(p.id, forecast.stalled ? 'Práce stojí, termín ohrožen' : `Prognóza ${forecast.slipDays} dní po termínu`);
+    });
+    return warnings;
+  }, [completedTables, projects]);
+  const inverters = useLiveQuery(
+    () => activeProject ? db.inverters.where('projectId').equals(activeProject.id).toArray() : Promise.resolve([]),
+    [activeProject]
+  );
+  const combinerBoxes = useLiveQuery(
+    () => activeProject ? db.combinerBoxes.where('projectId').equals(activeProject.id).toArray() : Promise.resolve([]),
+    [activeProject]
+  );
+  const stages = useMemo(() => projectStages(activeProject || undefined), [activeProject]);
+  const power = projectPowerConfig(activeProject || undefined);
+
+  useEffect(() => {
+    setActiveStage(null);
+    setStageDraft(null);
+  }, [activeProject?.id]);
 
   // --- History API for Sub-views ---
   useEffect(() => {
@@ -56,7 +182,7 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
     return () => window.removeEventListener('popstate', handlePopState);
   }, []);
 
-  const navigateToView = (newView: 'list' | 'create' | 'detail') => {
+  const navigateToView = (newView: 'list' | 'create' | 'detail' | 'trackers') => {
       // If going to list (back), we typically want to pop history if we pushed it
       // But for simplicity in this helper, we push state for non-list views
       if (newView !== 'list') {
@@ -88,24 +214,28 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
     const projectId = generateId();
     
     // Create Project
+    const tableCounts = layout ? layout.counts : form.counts;
     await db.projects.add({
       id: projectId,
       name: form.name,
       location: form.location,
-      tableCounts: { small: form.small, medium: form.medium, large: form.large },
+      deadline: form.deadline || undefined,
+      tableCounts,
       createdDate: Date.now(),
       lastSynced: 0,
       tablesGenerated: true, // We generate immediately
-      assignedEmployees: []
+      assignedEmployees: [],
+      stages: DEFAULT_STAGES,
+      power: formPower
     });
 
-    // Generate Tables
-    const tables: Table[] = [];
+    // Generate Tables: from the imported site layout, or a simple grid as a placeholder
+    const tables: Table[] = layout ? tablesFromLayout(projectId, layout) : [];
     let idx = 0;
     const spacing = 1; // logical grid spacing
 
     // Simple grid layout algorithm
-    const generateType = (count: number, type: TableType) => {
+    const generateType = (count: number, type: string) => {
         for(let i=0; i<count; i++) {
             tables.push({
                 id: `${projectId}_${idx}`,
@@ -120,22 +250,112 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
         }
     };
 
-    generateType(form.small, TableType.Small);
-    generateType(form.medium, TableType.Medium);
-    generateType(form.large, TableType.Large);
+    if (!layout) {
+        trackers.forEach(type => generateType(form.counts[type.id] || 0, type.id));
+    }
 
     await db.projectTables.bulkAdd(tables);
 
-    setForm({ name: '', location: '', small: 0, medium: 0, large: 0 });
+    setForm({ name: '', location: '', deadline: '', counts: {} });
+    setFormPower(DEFAULT_POWER_CONFIG);
+    setLayout(null);
+    setLayoutFileName('');
     
     // Go back to list effectively
     goBack();
   };
 
+  const handleLayoutFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+        const parsed = await readLayoutFile(file, trackers);
+        setLayout(parsed);
+        setLayoutFileName(file.name);
+        setForm(f => ({ ...f, counts: parsed.counts }));
+    } catch (err) {
+        console.error(err);
+        alert(layoutErrorMessage(err));
+    }
+  };
+
+  const clearLayout = () => {
+    setLayout(null);
+    setLayoutFileName('');
+  };
+
+  // Re-import a layout into an existing project: move matched tables, add new ones, drop missing ones
+  const handleUpdateLayout = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !activeProject) return;
+    try {
+        const parsed = await readLayoutFile(file, trackers);
+        const typeSummary = Object.entries(parsed.counts).map(([id, n]) => `${trackers.get(id)?.code || id} ${n}`).join(' / ');
+        const existing = await db.projectTables.where('projectId').equals(activeProject.id).toArray();
+        const indexes = new Set(parsed.tables.map(t => t.index));
+        const removed = existing.filter(t => !indexes.has(t.index));
+        const removedDone = removed.filter(t => t.status !== TableStatus.Pending).length;
+
+        const summary = [
+            `Layout ${file.name}: ${parsed.tables.length} stolů (${typeSummary}).`,
+            removed.length > 0 ? `Odstraní se ${removed.length} stolů, z toho ${removedDone} rozpracovaných.` : '',
+            parsed.warnings.length > 0 ? `Upozornění: ${parsed.warnings.length} (${parsed.warnings.slice(0, 3).join(' ')})` : ''
+        ].filter(Boolean).join('\n');
+        if (!window.confirm(`${summary}\nPokračovat?`)) return;
+
+        await db.transaction('rw', [db.projects, db.projectTables, db.tableHistory, db.tablePhotos, db.tombstones], async () => {
+            await db.projectTables.bulkPut(tablesFromLayout(activeProject.id, parsed, existing));
+            await deleteSynced('tables', removed.map(t => t.id));
+            await deleteHistoryOfTables(removed.map(t => t.id));
+            await deletePhotosOfTables(removed.map(t => t.id));
+            await db.projects.update(activeProject.id, { tableCounts: parsed.counts, tablesGenerated: true });
+        });
+        setActiveProject({ ...activeProject, tableCounts: parsed.counts, tablesGenerated: true });
+    } catch (err) {
+        console.error(err);
+        alert(layoutErrorMessage(err));
+    }
+  };
+
+  // Persist edits from the CanvasMap layout editor
+  const handleLayoutSave = async (changes: LayoutChanges) => {
+    if (!activeProject) return;
+    const projectId = activeProject.id;
+    const counts = await db.transaction('rw', [db.projects, db.projectTables, db.tableHistory, db.tablePhotos, db.tombstones], async () => {
+        for (const { id, x, y, rotation } of changes.moved) {
+            await db.projectTables.update(id, { x, y, rotation });
+        }
+
+        const existing = await db.projectTables.where('projectId').equals(projectId).toArray();
+        let nextIndex = existing.reduce((max, t) => Math.max(max, t.index), -1) + 1;
+        await db.projectTables.bulkAdd(changes.added.map(placement => {
+            const index = nextIndex++;
+            // Not `${projectId}_${index}`: a deleted table may have left a tombstone under that ID
+            return { id: uuidv4(), projectId, index, status: TableStatus.Pending, ...placement };
+        }));
+        await deleteSynced('tables', changes.deleted);
+        await deleteHistoryOfTables(changes.deleted);
+        await deletePhotosOfTables(changes.deleted);
+
+        const remaining = await db.projectTables.where('projectId').equals(projectId).toArray();
+        const tableCounts = countByType(remaining);
+        await db.projects.update(projectId, { tableCounts });
+        return tableCounts;
+    });
+    setActiveProject({ ...activeProject, tableCounts: counts });
+  };
+
   const handleDeleteProject = async (id: string) => {
       if(window.confirm('Opravdu smazat projekt a všechna data?')) {
-          await db.projects.delete(id);
-          await db.projectTables.where('projectId').equals(id).delete();
+          await deleteSynced('projects', [id]);
+          const tableIds = await db.projectTables.where('projectId').equals(id).primaryKeys();
+          await deleteSynced('tables', tableIds);
+          await deleteHistoryOfTables(tableIds);
+          await deletePhotosOfTables(tableIds);
+          await deleteSynced('issues', await db.issues.where('projectId').equals(id).primaryKeys());
+          await deleteProjectTopology(id);
           
           // Clear assignments from team members
           const members = await db.team.where('currentProjectId').equals(id).toArray();
@@ -149,6 +369,27 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
       const table = activeTables?.find(t => t.id === tableId);
       if(!table) return;
 
+      if (activeStage) {
+          const now = Date.now();
+          const changes = toggleStage(table, activeStage, stages, user.id, now);
+          await db.transaction('rw', db.projectTables, db.tableHistory, async () => {
+              await db.projectTables.update(tableId, changes);
+              if (changes.status) await recordStatusChanges([table], changes.status, user.id, now);
+          });
+          return;
+      }
+
+      // Completed -> Issue goes through the report form, which keeps the completion data
+      if (table.status === TableStatus.Completed) {
+          setIssueTables([table]);
+          return;
+      }
+      // An open issue is closed from the issue list, so its resolution is recorded
+      if (table.status === TableStatus.Issue && (await openIssuesOfTables([table.id])).length > 0) {
+          alert(`Stůl #${table.index} má otevřený problém. Vyřešte ho v sekci Problémy.`);
+          return;
+      }
+
       let nextStatus = TableStatus.Pending;
       let completedBy = undefined;
       let completedAt = undefined;
@@ -157,32 +398,106 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
           nextStatus = TableStatus.Completed;
           completedBy = user.id;
           completedAt = Date.now();
-      } else if (table.status === TableStatus.Completed) {
-          nextStatus = TableStatus.Issue;
-      } else {
-          nextStatus = TableStatus.Pending;
       }
 
-      await db.projectTables.update(tableId, { 
-          status: nextStatus,
-          completedBy,
-          completedAt
+      await db.transaction('rw', db.projectTables, db.tableHistory, async () => {
+          await db.projectTables.update(tableId, { 
+              status: nextStatus,
+              completedBy,
+              completedAt,
+              issueCategory: undefined,
+              stages: stagesForStatus(table, nextStatus, stages, user.id, completedAt || Date.now())
+          });
+          await recordStatusChanges([table], nextStatus, user.id);
+      });
+  };
+
+  // One transaction for the whole selection, so a row is never left half-marked
+  const handleBulkApply = async () => {
+      const selected = Array.from(selectedTableIds);
+      if (selected.length === 0) return;
+      // Issues are filed with a report; the tables change status when it is saved
+      if (bulkStatus === TableStatus.Issue) {
+          setIssueTables((activeTables || []).filter(t => selectedTableIds.has(t.id)));
+          return;
+      }
+      // Tables held by an open issue keep their status until it is resolved, like a single tap
+      const held = new Set((await openIssuesOfTables(selected)).flatMap(i => i.tableIds));
+      const ids = selected.filter(id => !held.has(id));
+      const skipped = selected.filter(id => held.has(id));
+      if (skipped.length > 0) {
+          alert(`${skipped.length} vybraných stolů má otevřený problém a zůstane beze změny. Vyřešte ho v sekci Problémy.`);
+      }
+      if (ids.length === 0) return;
+      const now = Date.now();
+      await db.transaction('rw', db.projectTables, db.tableHistory, async () => {
+          const before = (await db.projectTables.bulkGet(ids)).filter(Boolean) as Table[];
+          await recordStatusChanges(before, bulkStatus, user.id, now);
+          await db.projectTables.where('id').anyOf(ids).modify(table => {
+              const tableStages = stagesForStatus(table, bulkStatus, stages, bulkInstaller || user.id, now);
+              if (tableStages) table.stages = tableStages;
+              else delete table.stages;
+              if (bulkStatus === TableStatus.Completed) {
+                  // Keep the original completion time of tables that were already done
+                  if (table.status !== TableStatus.Completed) table.completedAt = now;
+                  table.completedBy = bulkInstaller || user.id;
+              } else {
+                  delete table.completedBy;
+                  delete table.completedAt;
+              }
+              delete table.issueCategory;
+              table.status = bulkStatus;
+          });
       });
+      // Skipped tables stay selected so it is clear which ones they are
+      setSelectedTableIds(new Set(skipped));
+  };
+
+  // Lands the selected tables' strings in one combiner box; tables in another box move over
+  const handleBulkAssignBox = async () => {
+      if (!bulkBoxId) return;
+      const selected = (activeTables || []).filter(t => selectedTableIds.has(t.id));
+      await assignTablesToBox(selected, bulkBoxId, trackers);
+      setSelectedTableIds(new Set());
   };
 
+  // Shows the table on the map; the status is changed there, not from the result list
   const handleSearchResultClick = (tableId: string) => {
-      handleTableClick(tableId);
-      setSearchQuery(''); // Clear search after action
+      setMapFocus({ tableId, at: Date.now() });
+      setSearchQuery('');
   };
 
   const handleUpdateProject = async () => {
       if (!activeProject) return;
       await db.projects.update(activeProject.id, {
           name: editForm.name,
-          location: editForm.location
+          location: editForm.location,
+          deadline: editForm.deadline || undefined,
+          power: editForm.power
       });
       setIsEditing(false);
-      setActiveProject({...activeProject, name: editForm.name, location: editForm.location});
+      setActiveProject({...activeProject, name: editForm.name, location: editForm.location, deadline: editForm.deadline || undefined, power: editForm.power});
+  };
+
+  const handleSaveStages = async () => {
+      if (!activeProject || !stageDraft) return;
+      const cleaned = stageDraft
+          .map(stage => ({ ...stage, name: stage.name.trim() }))
+          .filter(stage => stage.name);
+      if (cleaned.length === 0) return;
+      await db.projects.update(activeProject.id, { stages: cleaned });
+      setStageDraft(null);
+      if (activeStage && !cleaned.some(stage => stage.id === activeStage)) setActiveStage(null);
+      setActiveProject({ ...activeProject, stages: cleaned });
+  };
+
+  const moveStageDraft = (index: number, delta: number) => {
+      if (!stageDraft) return;
+      const target = index + delta;
+      if (target < 0 || target >= stageDraft.length) return;
+      const next = [...stageDraft];
+      [next[index], next[target]] = [next[target], next[index]];
+      setStageDraft(next);
   };
 
   // --- Team Assignment Logic ---
@@ -243,26 +558,38 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
             <div className="flex justify-between items-center mb-2 px-2">
                 <h2 className="text-xl font-bold text-white drop-shadow-md">Projekty</h2>
                 {isAdmin && (
-                    <button 
-                        onClick={() => navigateToView('create')}
-                        className="glass-button-primary px-4 py-2 flex items-center gap-2 shadow-lg">
-                        <Plus size={18} /> Nový
-                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => navigateToView('trackers')}
+                            className="glass-button px-3 py-2 flex items-center gap-2 text-slate-700 text-sm font-bold">
+                            <Layers size={16} /> Trackery
+                        </button>
+                        <button 
+                            onClick={() => navigateToView('create')}
+                            className="glass-button-primary px-4 py-2 flex items-center gap-2 shadow-lg">
+                            <Plus size={18} /> Nový
+                        </button>
+                    </div>
                 )}
             </div>
 
             <div className="grid gap-4">
                 {projects?.map(p => {
-                    const stats = calcProjectStats(p.tableCounts);
+                    const stats = calcProjectStats(p.tableCounts, trackers, projectPowerConfig(p));
                     
                     return (
-                        <div key={p.id} onClick={() => { setActiveProject(p); navigateToView('detail'); }} className="glass-panel p-5 active:scale-[0.99] transition-transform cursor-pointer group">
+                        <div key={p.id} onClick={() => { setActiveProject(p); setSelectedTableIds(new Set()); navigateToView('detail'); }} className="glass-panel p-5 active:scale-[0.99] transition-transform cursor-pointer group">
                             <div className="flex justify-between items-start mb-2">
                                 <div>
                                     <h3 className="text-lg font-bold text-slate-800 group-hover:text-blue-700 transition-colors">{p.name}</h3>
                                     <div className="flex items-center gap-1 text-xs text-slate-500 font-medium">
                                         <MapPin size={12} /> {p.location}
                                     </div>
+                                    {deadlineWarnings.has(p.id) && (
+                                        <div className="inline-flex items-center gap-1 mt-1 text-[10px] font-bold text-red-700 bg-red-50 border border-red-200 px-2 py-0.5 rounded-lg">
+                                            <AlertCircle size={10} /> {deadlineWarnings.get(p.id)}
+                                        </div>
+                                    )}
                                 </div>
                                 {isAdmin && (
                                     <button 
@@ -277,7 +604,7 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
                                 <div className="flex flex-col">
                                     <span className="text-[10px] uppercase font-bold text-slate-400">Stolů</span>
                                     <span className="font-mono font-bold text-slate-700 text-sm">
-                                        {p.tableCounts.small + p.tableCounts.medium + p.tableCounts.large}
+                                        {totalTables(p.tableCounts)}
                                     </span>
                                 </div>
                                 <div className="flex flex-col">
@@ -305,6 +632,11 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
         </>
       )}
 
+      {/* VIEW: TRACKER CATALOGUE */}
+      {view === 'trackers' && isAdmin && (
+          <TrackerCatalogueEditor onBack={goBack} />
+      )}
+
       {/* VIEW: CREATE */}
       {view === 'create' && (
           <div className="glass-panel p-6 animate-fade-in">
@@ -322,24 +654,54 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
                       <label className="text-xs font-bold text-slate-500 ml-1">Lokace</label>
                       <input className="glass-input w-full mt-1" placeholder="GPS nebo adresa" value={form.location} onChange={e => setForm({...form, location: e.target.value})} />
                   </div>
+                  <div>
+                      <label className="text-xs font-bold text-slate-500 ml-1">Termín dokončení</label>
+                      <input type="date" className="glass-input w-full mt-1" value={form.deadline} onChange={e => setForm({...form, deadline: e.target.value})} />
+                  </div>
                   
+                  <div>
+                      <label className="text-xs font-bold text-slate-500 ml-1">Layout stavby</label>
+                      {layout ? (
+                          <div className="mt-1 bg-white/30 p-2 rounded-lg text-[10px] text-slate-600 space-y-1">
+                              <div className="flex justify-between items-center">
+                                  <span className="font-bold text-slate-700 truncate">{layoutFileName}</span>
+                                  <button onClick={clearLayout} className="text-slate-400 hover:text-red-500"><X size={14}/></button>
+                              </div>
+                              <div>{layout.tables.length} stolů, počty podle typu převzaty z layoutu.</div>
+                              {layout.warnings.length > 0 && (
+                                  <div className="text-orange-600 max-h-16 overflow-y-auto">
+                                      {layout.warnings.map((w, i) => <div key={i}>{w}</div>)}
+                                  </div>
+                              )}
+                          </div>
+                      ) : (
+                          <button onClick={() => createLayoutInputRef.current?.click()} className="glass-button w-full mt-1 py-2 text-xs font-bold text-slate-700 flex justify-center items-center gap-2">
+                              <Upload size={14} /> Načíst CSV / GeoJSON / DXF
+                          </button>
+                      )}
+                      <input type="file" ref={createLayoutInputRef} onChange={handleLayoutFile} className="hidden" accept=".csv,.txt,.json,.geojson,.dxf" />
+                  </div>
+
                   <div className="grid grid-cols-3 gap-3">
-                      <div>
-                          <label className="text-xs font-bold text-slate-500 ml-1">Small</label>
-                          <input type="number" className="glass-input w-full mt-1" value={form.small} onChange={e => setForm({...form, small: Number(e.target.value)})} />
-                      </div>
-                      <div>
-                          <label className="text-xs font-bold text-slate-500 ml-1">Medium</label>
-                          <input type="number" className="glass-input w-full mt-1" value={form.medium} onChange={e => setForm({...form, medium: Number(e.target.value)})} />
-                      </div>
-                      <div>
-                          <label className="text-xs font-bold text-slate-500 ml-1">Large</label>
-                          <input type="number" className="glass-input w-full mt-1" value={form.large} onChange={e => setForm({...form, large: Number(e.target.value)})} />
-                      </div>
+                      {Array.from(trackers.values()).map(type => (
+                          <div key={type.id}>
+                              <label className="text-xs font-bold text-slate-500 ml-1 truncate block" title={type.vendor ? `${type.name} (${type.vendor})` : type.name}>{type.name}</label>
+                              <input
+                                type="number"
+                                min={0}
+                                className="glass-input w-full mt-1"
+                                disabled={!!layout}
+                                value={form.counts[type.id] || 0}
+                                onChange={e => setForm({ ...form, counts: { ...form.counts, [type.id]: Math.max(0, Number(e.target.value)) } })}
+                              />
+                          </div>
+                      ))}
                   </div>
 
+                  <PowerConfigFields value={formPower} onChange={setFormPower} />
+
                   <div className="text-[10px] text-slate-500 bg-white/30 p-2 rounded-lg space-y-1">
-                      <div className="flex justify-between"><span>Výkon (Est):</span> <b>{calcProjectStats({small:form.small, medium:form.medium, large:form.large}).mw.toFixed(2)} MW</b></div>
+                      <div className="flex justify-between"><span>Výkon (Est):</span> <b>{calcProjectStats(layout ? layout.counts : form.counts, trackers, formPower).mw.toFixed(2)} MW</b></div>
                   </div>
 
                   <button 
@@ -369,6 +731,11 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
                              <div className="space-y-2 mb-2">
                                 <input className="glass-input w-full text-lg font-bold" value={editForm.name} onChange={e => setEditForm({...editForm, name: e.target.value})} />
                                 <input className="glass-input w-full text-sm" value={editForm.location} onChange={e => setEditForm({...editForm, location: e.target.value})} />
+                                <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                                    Termín dokončení
+                                    <input type="date" className="glass-input flex-1 text-sm" value={editForm.deadline} onChange={e => setEditForm({...editForm, deadline: e.target.value})} />
+                                </label>
+                                <PowerConfigFields value={editForm.power} onChange={p => setEditForm({...editForm, power: p})} />
                                 <div className="flex gap-2">
                                     <button onClick={handleUpdateProject} className="bg-green-500 text-white px-3 py-1 rounded-lg text-xs font-bold">Uložit</button>
                                     <button onClick={() => setIsEditing(false)} className="bg-slate-300 text-slate-700 px-3 py-1 rounded-lg text-xs font-bold">Zrušit</button>
@@ -379,9 +746,15 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
                                 <div className="flex justify-between items-start">
                                     <h2 className="text-2xl font-black text-slate-800 leading-tight">{activeProject.name}</h2>
                                     {isAdmin && (
-                                        <button onClick={() => { setIsEditing(true); setEditForm({name: activeProject.name, location: activeProject.location}) }} className="text-slate-400 hover:text-blue-600">
-                                            <Pencil size={16} />
-                                        </button>
+                                        <div className="flex items-center gap-3">
+                                            <button onClick={() => detailLayoutInputRef.current?.click()} className="text-slate-400 hover:text-blue-600" title="Importovat layout">
+                                                <Upload size={16} />
+                                            </button>
+                                            <button onClick={() => { setIsEditing(true); setEditForm({name: activeProject.name, location: activeProject.location, deadline: activeProject.deadline || '', power}) }} className="text-slate-400 hover:text-blue-600">
+                                                <Pencil size={16} />
+                                            </button>
+                                            <input type="file" ref={detailLayoutInputRef} onChange={handleUpdateLayout} className="hidden" accept=".csv,.txt,.json,.geojson,.dxf" />
+                                        </div>
                                     )}
                                 </div>
                                 <div className="flex items-center gap-1.5 text-slate-600 font-medium text-sm mt-1">
@@ -394,7 +767,7 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
                         {/* Power Specs */}
                         <div className="flex flex-wrap gap-2 mt-3">
                             {(() => {
-                                const s = calcProjectStats(activeProject.tableCounts);
+                                const s = calcProjectStats(activeProject.tableCounts, trackers, power);
                                 return (
                                     <>
                                         <span className="inline-flex items-center gap-1 text-[10px] bg-yellow-500/10 text-yellow-800 px-2 py-1 rounded-lg border border-yellow-500/20 font-bold">
@@ -481,6 +854,63 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
                   </div>
               </div>
 
+              {/* Installation Stages */}
+              <div className="glass-panel p-4 flex flex-col gap-3">
+                  <div className="flex justify-between items-center border-b border-white/20 pb-2">
+                      <div className="flex items-center gap-2 text-slate-700 font-bold text-sm">
+                          <ListChecks size={16} className="text-blue-600"/> Etapy montáže
+                      </div>
+                      {isAdmin && !stageDraft && (
+                          <button
+                            onClick={() => setStageDraft(stages.map(stage => ({ ...stage })))}
+                            className="text-[10px] bg-white/40 hover:bg-white/60 px-2 py-1 rounded-lg text-blue-700 font-bold transition-colors flex items-center gap-1">
+                              <Pencil size={10} /> Upravit
+                          </button>
+                      )}
+                  </div>
+
+                  {stageDraft ? (
+                      <div className="space-y-2">
+                          {stageDraft.map((stage, i) => (
+                              <div key={stage.id} className="flex items-center gap-1">
+                                  <input
+                                      className="glass-input flex-1 py-1 px-2 text-xs font-bold"
+                                      value={stage.name}
+                                      onChange={e => setStageDraft(stageDraft.map(s => (s.id === stage.id ? { ...s, name: e.target.value } : s)))}
+                                  />
+                                  <button onClick={() => moveStageDraft(i, -1)} disabled={i === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"><ChevronUp size={14}/></button>
+                                  <button onClick={() => moveStageDraft(i, 1)} disabled={i === stageDraft.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"><ChevronDown size={14}/></button>
+                                  <button onClick={() => setStageDraft(stageDraft.filter(s => s.id !== stage.id))} disabled={stageDraft.length === 1} className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-30"><Trash2 size={14}/></button>
+                              </div>
+                          ))}
+                          <button
+                            onClick={() => setStageDraft([...stageDraft, { id: generateId(), name: '' }])}
+                            className="flex items-center gap-1 bg-blue-500/10 hover:bg-blue-500/20 px-3 py-1.5 rounded-xl border border-blue-500/20 text-blue-700 text-xs font-bold border-dashed">
+                              <Plus size={12} /> Přidat etapu
+                          </button>
+                          <div className="text-[10px] text-slate-400">Stůl je hotový, až když má splněné všechny etapy.</div>
+                          <div className="flex gap-2">
+                              <button onClick={handleSaveStages} className="bg-green-500 text-white px-3 py-1 rounded-lg text-xs font-bold">Uložit</button>
+                              <button onClick={() => setStageDraft(null)} className="bg-slate-300 text-slate-700 px-3 py-1 rounded-lg text-xs font-bold">Zrušit</button>
+                          </div>
+                      </div>
+                  ) : (
+                      <div className="flex flex-wrap gap-2">
+                          {(calcProjectStats(activeProject.tableCounts, trackers, power, { tables: activeTables || [], stages }).stages || []).map(stage => (
+                              <button
+                                key={stage.id}
+                                onClick={() => setActiveStage(activeStage === stage.id ? null : stage.id)}
+                                className={`inline-flex items-center gap-1 text-[10px] px-2 py-1 rounded-lg border font-bold transition-colors ${activeStage === stage.id ? 'bg-blue-500 text-white border-blue-500' : 'bg-white/30 text-slate-700 border-white/40 hover:bg-white/50'}`}>
+                                  {stage.name} <span className="opacity-70">{stage.done}/{stage.total} • {stage.percent} %</span>
+                              </button>
+                          ))}
+                      </div>
+                  )}
+                  {activeStage && !stageDraft && (
+                      <div className="text-[10px] text-blue-700 font-bold">Klepnutím na stůl v mapě odškrtnete etapu „{stages.find(s => s.id === activeStage)?.name}“.</div>
+                  )}
+              </div>
+
               {/* Search Bar */}
               <div className="glass-panel px-3 py-2 flex items-center gap-2 relative z-20">
                     <Search size={16} className="text-slate-500"/>
@@ -500,7 +930,7 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
                                 >
                                     <div className="flex flex-col">
                                         <span className="font-bold text-slate-700 text-sm">{res.id}</span>
-                                        <span className="text-[10px] text-slate-500">Typ {res.type} • Souř [{res.x}, {res.y}]</span>
+                                        <span className="text-[10px] text-slate-500">Typ {trackers.get(res.type)?.name || res.type} • Souř [{res.x}, {res.y}]</span>
                                     </div>
                                     {res.status === TableStatus.Completed && <CheckCircle size={14} className="text-green-500"/>}
                                     {res.status === TableStatus.Issue && <AlertCircle size={14} className="text-red-500"/>}
@@ -515,17 +945,125 @@ const ProjectManagement: React.FC<Props> = ({ user }) => {
                   <CanvasMap 
                     tables={activeTables || []} 
                     onTableClick={handleTableClick} 
+                    editable={isAdmin}
+                    onLayoutSave={handleLayoutSave}
+                    selection={selectedTableIds}
+                    onSelectionChange={setSelectedTableIds}
+                    projectName={activeProject.name}
+                    memberNames={memberNames}
+                    focus={mapFocus}
+                    onTableLongPress={setDetailTableId}
+                    stages={stages}
+                    activeStage={activeStage}
+                    onActiveStageChange={setActiveStage}
+                    power={power}
+                    trackers={trackers}
                   />
-                  {/* Legend Overlay */}
-                  <div className="absolute top-4 left-4 bg-white/80 backdrop-blur-sm p-2 rounded-xl text-[10px] font-bold text-slate-600 shadow-sm border border-white pointer-events-none">
-                      <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-white border border-slate-400"></div> Čeká</div>
-                      <div className="flex items-center gap-1.5 mt-1"><div className="w-2 h-2 rounded-full bg-green-200 border border-green-500"></div> Hotovo</div>
-                      <div className="flex items-center gap-1.5 mt-1"><div className="w-2 h-2 rounded-full bg-red-200 border border-red-500"></div> Problém</div>
-                  </div>
               </div>
+
+              {/* Bulk Action Sheet */}
+              {selectedTableIds.size > 0 && (
+                  <div className="glass-panel p-4 space-y-3 animate-fade-in">
+                      <div className="flex justify-between items-center">
+                          <span className="text-sm font-bold text-slate-700">Vybráno stolů: {selectedTableIds.size}</span>
+                          <button onClick={() => setSelectedTableIds(new Set())} className="text-slate-400 hover:text-slate-600"><X size={16}/></button>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                          {[
+                              { status: TableStatus.Pending, label: 'Čeká', active: 'bg-white shadow text-slate-700' },
+                              { status: TableStatus.Completed, label: 'Hotovo', active: 'bg-green-500 text-white shadow-md' },
+                              { status: TableStatus.Issue, label: 'Problém', active: 'bg-red-500 text-white shadow-md' }
+                          ].map(option => (
+                              <button
+                                  key={option.status}
+                                  onClick={() => setBulkStatus(option.status)}
+                                  className={`py-2 rounded-lg text-xs font-bold transition-all ${bulkStatus === option.status ? option.active : 'bg-white/30 text-slate-500 hover:bg-white/40'}`}>
+                                  {option.label}
+                              </button>
+                          ))}
+                      </div>
+                      {bulkStatus === TableStatus.Completed && (
+                          <div className="flex items-center justify-between gap-2">
+                              <span className="text-xs font-bold text-slate-500 flex items-center gap-1"><User size={12}/> Montér</span>
+                              <select
+                                  value={bulkInstaller}
+                                  onChange={e => setBulkInstaller(e.target.value)}
+                                  className="glass-input py-1 px-2 text-xs font-bold flex-1">
+                                  <option value="">{user.name} (já)</option>
+                                  {(allTeam || [])
+                                      .filter(m => m.isActive && (!activeProject.assignedEmployees?.length || activeProject.assignedEmployees.includes(m.id)))
+                                      .map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                              </select>
+                          </div>
+                      )}
+                      <button onClick={handleBulkApply} className="glass-button-primary w-full py-2.5 flex justify-center items-center gap-2 text-sm">
+                          {bulkStatus === TableStatus.Issue
+                              ? <><AlertCircle size={16}/> Nahlásit problém u {selectedTableIds.size} stolů</>
+                              : <><Check size={16}/> Použít na {selectedTableIds.size} stolů</>}
+                      </button>
+                      {isAdmin && combinerBoxes && combinerBoxes.length > 0 && (
+                          <div className="flex items-center justify-between gap-2 border-t border-white/30 pt-3">
+                              <span className="text-xs font-bold text-slate-500 flex items-center gap-1"><Zap size={12}/> Rozvaděč</span>
+                              <select
+                                  value={bulkBoxId}
+                                  onChange={e => setBulkBoxId(e.target.value)}
+                                  className="glass-input py-1 px-2 text-xs font-bold flex-1">
+                                  <option value="">Vyberte…</option>
+                                  {combinerBoxes.map(box => (
+                                      <option key={box.id} value={box.id}>
+                                          {inverters?.find(i => i.id === box.inverterId)?.name || '?'} / {box.name}
+                                      </option>
+                                  ))}
+                              </select>
+                              <button onClick={handleBulkAssignBox} disabled={!bulkBoxId} className="bg-blue-500 text-white px-3 py-1 rounded-lg text-xs font-bold disabled:opacity-50">Přiřadit</button>
+                          </div>
+                      )}
+                  </div>
+              )}
+
+              {/* Forecast */}
+              <ProjectForecast
+                  tables={activeTables || []}
+                  trackers={trackers}
+                  power={power}
+                  deadline={activeProject.deadline}
+              />
+
+              {/* Electrical Topology */}
+              <ElectricalTopology
+                  project={activeProject}
+                  tables={activeTables || []}
+                  inverters={inverters || []}
+                  boxes={combinerBoxes || []}
+                  trackers={trackers}
+                  power={power}
+                  isAdmin={isAdmin}
+              />
           </div>
       )}
 
+      {/* SHEET: TABLE DETAIL */}
+      {detailTableId && activeTables?.some(t => t.id === detailTableId) && (
+          <TableDetailSheet
+              table={activeTables.find(t => t.id === detailTableId)!}
+              user={user}
+              memberNames={memberNames}
+              stages={stages}
+              trackers={trackers}
+              onClose={() => setDetailTableId(null)}
+          />
+      )}
+
+      {/* SHEET: REPORT ISSUE */}
+      {issueTables && issueTables.length > 0 && (
+          <IssueForm
+              tables={issueTables}
+              user={user}
+              onClose={() => setIssueTables(null)}
+              onReported={() => setSelectedTableIds(new Set())}
+          />
+      )}
+
       {/* MODAL: ASSIGN TEAM */}
       {showAssignModal && isAdmin && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-fade-in">
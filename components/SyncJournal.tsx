@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { db } from '../db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowUpCircle, ArrowDownCircle, Search, Trash2 } from 'lucide-react';
+import { clearSyncJournal } from '../services/syncJournal';
+import { SyncEntity, SyncJournalEntry } from '../types';
+
+type DirectionFilter = 'all' | SyncJournalEntry['direction'];
+type StatusFilter = 'all' | SyncJournalEntry['status'];
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+interface Props {
+    entityLabels: Record<SyncEntity, string>;
+}
+
+const SyncJournal: React.FC<Props> = ({ entityLabels }) => {
+    const [direction, setDirection] = useState<DirectionFilter>('all');
+    const [status, setStatus] = useState<StatusFilter>('all');
+    const [search, setSearch] = useState('');
+
+    const entries = useLiveQuery(() => db.syncJournal.orderBy('startedAt').reverse().toArray());
+
+    const describeCounts = (counts: SyncJournalEntry['entityCounts']) => {
+        const parts = Object.entries(counts).map(([key, count]) =>
+            `${key === 'deleted' ? 'Smazané' : entityLabels[key as SyncEntity]} ${count}`);
+        return parts.length > 0 ? parts.join(' • ') : 'Bez záznamů';
+    };
+
+    const query = search.trim().toLowerCase();
+    const filtered = (entries || []).filter(e =>
+        (direction === 'all' || e.direction === direction) &&
+        (status === 'all' || e.status === status) &&
+        (!query || e.response.toLowerCase().includes(query) || describeCounts(e.entityCounts).toLowerCase().includes(query)));
+
+    const errorCount = filtered.filter(e => e.status === 'error').length;
+
+    const handleClear = async () => {
+        if (window.confirm('Smazat historii synchronizace?')) {
+            await clearSyncJournal();
+        }
+    };
+
+    const filterButton = (active: boolean) =>
+        `flex-1 py-1.5 rounded-lg text-[10px] font-bold transition-colors ${active ? 'bg-white shadow text-purple-700' : 'text-slate-600'}`;
+
+    return (
+        <div className="glass-panel p-5 space-y-3">
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-bold text-slate-800">Historie synchronizace</h3>
+                <button onClick={handleClear} className="text-[10px] text-red-500 hover:text-red-700 flex items-center gap-0.5"><Trash2 size={10}/> Smazat</button>
+            </div>
+
+            <div className="flex gap-1 bg-white/30 p-1 rounded-xl">
+                <button onClick={() => setDirection('all')} className={filterButton(direction === 'all')}>Vše</button>
+                <button onClick={() => setDirection('push')} className={filterButton(direction === 'push')}>Odeslání</button>
+                <button onClick={() => setDirection('pull')} className={filterButton(direction === 'pull')}>Stažení</button>
+            </div>
+            <div className="flex gap-1 bg-white/30 p-1 rounded-xl">
+                <button onClick={() => setStatus('all')} className={filterButton(status === 'all')}>Vše</button>
+                <button onClick={() => setStatus('success')} className={filterButton(status === 'success')}>Úspěch</button>
+                <button onClick={() => setStatus('error')} className={filterButton(status === 'error')}>Chyba</button>
+            </div>
+
+            <div className="relative">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                    type="text"
+                    className="glass-input w-full pl-8 pr-3 py-2 text-xs"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Hledat v odpovědích serveru..."
+                />
+            </div>
+
+            <p className="text-[10px] text-slate-500">
+                {filtered.length} pokusů, z toho {errorCount} chybných
+            </p>
+
+            <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+                {filtered.map(entry => (
+                    <div key={entry.id} className={`bg-white/40 rounded-xl border p-3 text-xs ${entry.status === 'error' ? 'border-red-200' : 'border-white/30'}`}>
+                        <div className="flex justify-between items-center mb-1">
+                            <span className="flex items-center gap-1 font-bold text-slate-700">
+                                {entry.direction === 'push'
+                                    ? <ArrowUpCircle size={14} className="text-blue-600" />
+                                    : <ArrowDownCircle size={14} className="text-purple-600" />}
+                                {entry.direction === 'push' ? 'Odeslání' : 'Stažení'}
+                            </span>
+                            <span className="font-mono text-[10px] text-slate-400">{new Date(entry.startedAt).toLocaleString()}</span>
+                        </div>
+                        <div className="text-[10px] text-slate-600 mb-1">{describeCounts(entry.entityCounts)}</div>
+                        <div className="flex gap-3 text-[10px] font-mono text-slate-500 mb-1">
+                            <span>{formatBytes(entry.bytesRaw)} → {formatBytes(entry.bytesCompressed)}</span>
+                            {entry.bytesRaw > 0 && (
+                                <span>{Math.round(entry.bytesCompressed / entry.bytesRaw * 100)} %</span>
+                            )}
+                            <span>{entry.durationMs} ms</span>
+                        </div>
+                        <div className={`text-[10px] ${entry.status === 'error' ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+                            {entry.response}
+                        </div>
+                    </div>
+                ))}
+                {filtered.length === 0 && (
+                    <p className="text-center text-xs text-slate-400 py-4">Žádné záznamy</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SyncJournal;
@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { StageDefinition, Table, TableStatus, TablePhoto, UserProfile } from '../types';
+import { X, Camera, AlertCircle, CheckCircle, History, Trash2, StickyNote, ListChecks, Circle, AlertTriangle } from 'lucide-react';
+import { getTableHistory } from '../services/tableHistory';
+import { addTablePhoto } from '../services/tablePhotos';
+import { ISSUE_CATEGORY_LABELS } from '../logic/mapOverlays';
+import { isIssueOpen } from '../services/issues';
+import IssueForm, { ISSUE_SEVERITY_BADGES, ISSUE_SEVERITY_LABELS } from './IssueForm';
+import { recordStatusChanges } from '../services/tableHistory';
+import { toggleStage } from '../logic/stages';
+import { TrackerCatalogue, trackerOf } from '../logic/trackerTypes';
+
+const STATUS_LABELS: Record<TableStatus, string> = {
+    [TableStatus.Pending]: 'Čeká',
+    [TableStatus.Completed]: 'Hotovo',
+    [TableStatus.Issue]: 'Problém'
+};
+
+const STATUS_BADGES: Record<TableStatus, string> = {
+    [TableStatus.Pending]: 'bg-slate-100 text-slate-600 border-slate-200',
+    [TableStatus.Completed]: 'bg-green-100 text-green-700 border-green-200',
+    [TableStatus.Issue]: 'bg-red-100 text-red-700 border-red-200'
+};
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('cs-CZ', { day: 'numeric', month: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface Props {
+    table: Table;
+    user: UserProfile;
+    memberNames: Record<string, string>;
+    stages: StageDefinition[];
+    trackers: TrackerCatalogue;
+    onClose: () => void;
+}
+
+const TableDetailSheet: React.FC<Props> = ({ table, user, memberNames, stages, trackers, onClose }) => {
+    const [notes, setNotes] = useState(table.notes || '');
+    const [isSavingPhoto, setIsSavingPhoto] = useState(false);
+    const [viewedPhoto, setViewedPhoto] = useState<TablePhoto | null>(null);
+    const [isReporting, setIsReporting] = useState(false);
+    const tracker = trackerOf(trackers, table.type);
+    const photoInputRef = useRef<HTMLInputElement>(null);
+
+    const history = useLiveQuery(() => getTableHistory(table.id), [table.id]);
+    const issues = useLiveQuery(
+        async () => (await db.issues.where('tableIds').equals(table.id).toArray()).filter(isIssueOpen),
+        [table.id]
+    );
+    const photos = useLiveQuery(() => db.tablePhotos.where('tableId').equals(table.id).sortBy('takenAt'), [table.id]);
+
+    // Follow edits made elsewhere (sync, another tab) while the sheet is open
+    useEffect(() => {
+        setNotes(table.notes || '');
+    }, [table.id, table.notes]);
+
+    const photoUrls = useMemo(() => new Map((photos || []).map(p => [p.id, URL.createObjectURL(p.blob)])), [photos]);
+    useEffect(() => () => photoUrls.forEach(url => URL.revokeObjectURL(url)), [photoUrls]);
+
+    const nameOf = (id?: string) => (id ? memberNames[id] || 'Neznámý' : '—');
+    const issueSince = table.status === TableStatus.Issue
+        ? history?.find(h => h.to === TableStatus.Issue)
+        : undefined;
+    const notesChanged = notes.trim() !== (table.notes || '');
+
+    const handleSaveNotes = async () => {
+        await db.projectTables.update(table.id, { notes: notes.trim() || undefined });
+    };
+
+    const handleToggleStage = async (stageId: string) => {
+        const now = Date.now();
+        const changes = toggleStage(table, stageId, stages, user.id, now);
+        await db.transaction('rw', db.projectTables, db.tableHistory, async () => {
+            await db.projectTables.update(table.id, changes);
+            if (changes.status) await recordStatusChanges([table], changes.status, user.id, now);
+        });
+    };
+
+    const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+        setIsSavingPhoto(true);
+        try {
+            for (const file of files) await addTablePhoto(table, file, user.id);
+        } catch (err) {
+            console.error(err);
+            alert('Fotku se nepodařilo uložit.');
+        } finally {
+            setIsSavingPhoto(false);
+        }
+    };
+
+    const handleDeletePhoto = async (photo: TablePhoto) => {
+        if (!window.confirm('Smazat fotku?')) return;
+        await db.tablePhotos.delete(photo.id);
+        setViewedPhoto(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="glass-panel w-full max-w-md max-h-[85vh] flex flex-col bg-white/95 shadow-2xl rounded-b-none sm:rounded-b-2xl" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-slate-100 flex justify-between items-start">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800">Stůl #{table.index}</h3>
+                        <div className="flex flex-wrap items-center gap-1.5 mt-1 text-[10px] font-bold">
+                            <span className={`px-2 py-0.5 rounded-lg border ${STATUS_BADGES[table.status]}`}>{STATUS_LABELS[table.status]}</span>
+                            <span className="px-2 py-0.5 rounded-lg border bg-slate-50 text-slate-600 border-slate-200" title={tracker.name}>Typ {tracker.code}</span>
+                            {table.block && <span className="text-slate-500">Blok {table.block}</span>}
+                            {table.row && <span className="text-slate-500">Řada {table.row}</span>}
+                            {table.stringIds && table.stringIds.length > 0 && <span className="text-slate-500">String {table.stringIds.join(', ')}</span>}
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20}/></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {/* Open issue / completion */}
+                    {issues?.map(issue => (
+                        <div key={issue.id} className="p-3 rounded-xl bg-red-50 border border-red-200 flex items-start gap-2">
+                            <AlertCircle size={16} className="text-red-500 mt-0.5 shrink-0"/>
+                            <div className="text-xs min-w-0">
+                                <div className="font-bold text-red-700 flex flex-wrap items-center gap-1.5">
+                                    {ISSUE_CATEGORY_LABELS[issue.category]}
+                                    <span className={`px-1.5 py-0.5 rounded-md border text-[10px] ${ISSUE_SEVERITY_BADGES[issue.severity]}`}>{ISSUE_SEVERITY_LABELS[issue.severity]}</span>
+                                </div>
+                                {issue.description && <div className="text-red-700 mt-0.5">{issue.description}</div>}
+                                <div className="text-red-600/80 mt-0.5">
+                                    Nahlásil {nameOf(issue.reportedBy)} • {formatTime(issue.reportedAt)}{issue.assignee ? ` • řeší ${nameOf(issue.assignee)}` : ''}
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                    {/* Marked on the map without a report */}
+                    {table.status === TableStatus.Issue && issues?.length === 0 && (
+                        <div className="p-3 rounded-xl bg-red-50 border border-red-200 flex items-start gap-2">
+                            <AlertCircle size={16} className="text-red-500 mt-0.5 shrink-0"/>
+                            <div className="text-xs">
+                                <div className="font-bold text-red-700">
+                                    Otevřený problém: {table.issueCategory ? ISSUE_CATEGORY_LABELS[table.issueCategory] : 'Nezařazeno'}
+                                </div>
+                                {issueSince && (
+                                    <div className="text-red-600/80 mt-0.5">Nahlásil {nameOf(issueSince.by)} • {formatTime(issueSince.at)}</div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    {table.status === TableStatus.Completed && (
+                        <div className="p-3 rounded-xl bg-green-50 border border-green-200 flex items-center gap-2 text-xs">
+                            <CheckCircle size={16} className="text-green-600 shrink-0"/>
+                            <span className="font-bold text-green-700">
+                                Namontoval {nameOf(table.completedBy)}{table.completedAt ? ` • ${formatTime(table.completedAt)}` : ''}
+                            </span>
+                        </div>
+                    )}
+
+                    <button
+                        onClick={() => setIsReporting(true)}
+                        className="w-full py-2 rounded-xl border border-red-200 bg-red-50/60 hover:bg-red-100 text-red-700 text-xs font-bold flex justify-center items-center gap-1 transition-colors">
+                        <AlertTriangle size={14}/> Nahlásit problém
+                    </button>
+
+                    {/* Stages */}
+                    <div className="space-y-1.5">
+                        <div className="text-xs font-bold text-slate-500 flex items-center gap-1"><ListChecks size={12}/> Etapy</div>
+                        <div className="space-y-1">
+                            {stages.map(stage => {
+                                const progress = table.stages?.[stage.id];
+                                // Completed before stages were tracked: done, but nobody recorded when
+                                const done = !!progress || table.status === TableStatus.Completed;
+                                return (
+                                    <button
+                                        key={stage.id}
+                                        onClick={() => handleToggleStage(stage.id)}
+                                        className="w-full flex justify-between items-center text-xs bg-white/60 px-3 py-2 rounded-lg border border-slate-100 hover:bg-white">
+                                        <span className={`flex items-center gap-2 font-bold ${done ? 'text-green-700' : 'text-slate-500'}`}>
+                                            {done ? <CheckCircle size={14} className="text-green-600"/> : <Circle size={14} className="text-slate-300"/>}
+                                            {stage.name}
+                                        </span>
+                                        {progress && (
+                                            <span className="text-[10px] text-slate-500 text-right">{nameOf(progress.by)}<br/>{formatTime(progress.at)}</span>
+                                        )}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Notes */}
+                    <div className="space-y-1.5">
+                        <div className="text-xs font-bold text-slate-500 flex items-center gap-1"><StickyNote size={12}/> Poznámky</div>
+                        <textarea
+                            value={notes}
+                            onChange={e => setNotes(e.target.value)}
+                            rows={3}
+                            placeholder="Např. chybí šroub u pilota 3…"
+                            className="glass-input w-full text-sm resize-none"
+                        />
+                        {notesChanged && (
+                            <button onClick={handleSaveNotes} className="glass-button-primary w-full py-2 text-xs">Uložit poznámku</button>
+                        )}
+                    </div>
+
+                    {/* Photos */}
+                    <div className="space-y-1.5">
+                        <div className="flex justify-between items-center">
+                            <span className="text-xs font-bold text-slate-500 flex items-center gap-1"><Camera size={12}/> Fotky</span>
+                            <button
+                                onClick={() => photoInputRef.current?.click()}
+                                disabled={isSavingPhoto}
+                                className="text-[10px] bg-blue-500/10 hover:bg-blue-500/20 px-2 py-1 rounded-lg text-blue-700 font-bold transition-colors flex items-center gap-1 disabled:opacity-50">
+                                <Camera size={10}/> {isSavingPhoto ? 'Ukládám…' : 'Vyfotit'}
+                            </button>
+                            <input type="file" ref={photoInputRef} onChange={handlePhotoSelected} className="hidden" accept="image/*" capture="environment" multiple />
+                        </div>
+                        {photos && photos.length > 0 ? (
+                            <div className="grid grid-cols-3 gap-2">
+                                {photos.map(photo => (
+                                    <button key={photo.id} onClick={() => setViewedPhoto(photo)} className="aspect-square rounded-lg overflow-hidden border border-slate-200 bg-slate-100">
+                                        <img src={photoUrls.get(photo.id)} alt="" className="w-full h-full object-cover"/>
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="text-xs text-slate-400 italic">Žádné fotky.</div>
+                        )}
+                        <div className="text-[10px] text-slate-400">Fotky zůstávají jen v tomto zařízení.</div>
+                    </div>
+
+                    {/* Status history */}
+                    <div className="space-y-1.5">
+                        <div className="text-xs font-bold text-slate-500 flex items-center gap-1"><History size={12}/> Historie stavu</div>
+                        {history && history.length > 0 ? (
+                            <div className="space-y-1">
+                                {history.map(entry => (
+                                    <div key={entry.id} className="flex justify-between items-center text-xs bg-white/60 px-3 py-2 rounded-lg border border-slate-100">
+                                        <span className="font-bold text-slate-700">{STATUS_LABELS[entry.from]} → {STATUS_LABELS[entry.to]}</span>
+                                        <span className="text-[10px] text-slate-500 text-right">{nameOf(entry.by)}<br/>{formatTime(entry.at)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="text-xs text-slate-400 italic">Zatím beze změn.</div>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {isReporting && (
+                <div onClick={e => e.stopPropagation()}>
+                    <IssueForm tables={[table]} user={user} onClose={() => setIsReporting(false)} />
+                </div>
+            )}
+
+            {/* Full-size photo */}
+            {viewedPhoto && (
+                <div className="fixed inset-0 z-50 bg-black/90 flex flex-col items-center justify-center p-4" onClick={e => { e.stopPropagation(); setViewedPhoto(null); }}>
+                    <img src={photoUrls.get(viewedPhoto.id)} alt="" className="max-w-full max-h-[80vh] rounded-lg"/>
+                    <div className="flex items-center gap-4 mt-4 text-white text-xs">
+                        <span>{nameOf(viewedPhoto.takenBy)} • {formatTime(viewedPhoto.takenAt)}</span>
+                        <button onClick={e => { e.stopPropagation(); handleDeletePhoto(viewedPhoto); }} className="flex items-center gap-1 text-red-300 hover:text-red-200 font-bold">
+                            <Trash2 size={14}/> Smazat
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TableDetailSheet;
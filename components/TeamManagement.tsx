@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { db } from '../db';
+import { db, deleteSynced } from '../db';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { 
     UserPlus, Clock, LogIn, LogOut, Search, 
@@ -8,8 +8,9 @@ import {
     AlertCircle, Palmtree, Mail, Banknote, Signal, SignalZero,
     BarChart3, Activity
 } from 'lucide-react';
-import { TeamMember, UserProfile } from '../types';
-import { calcSingleTableKwp } from '../logic/powerCalc';
+import { Table, TeamMember, UserProfile } from '../types';
+import { calcSingleTableKwp, projectPowerConfig } from '../logic/powerCalc';
+import { buildCatalogue, trackerOf } from '../logic/trackerTypes';
 
 const generateId = () => {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
@@ -35,6 +36,7 @@ const TeamManagement: React.FC<Props> = ({ user }) => {
 
   // Queries
   const allTeam = useLiveQuery(() => db.team.toArray());
+  const trackerTypes = useLiveQuery(() => db.trackerTypes.toArray());
   const projects = useLiveQuery(() => db.projects.toArray());
   const tables = useLiveQuery(() => db.projectTables.toArray()); 
   const attendanceAll = useLiveQuery(() => db.attendance.toArray());
@@ -123,7 +125,7 @@ const TeamManagement: React.FC<Props> = ({ user }) => {
 
   const handleDeleteMember = async (id: string) => {
       if (window.confirm('Smazat pracovníka? Historie docházky zůstane zachována.')) {
-          await db.team.delete(id);
+          await deleteSynced('team', [id]);
       }
   };
 
@@ -172,6 +174,13 @@ const TeamManagement: React.FC<Props> = ({ user }) => {
   );
 
   // --- Performance Calculation Helpers ---
+  // Each site has its own modules, so a table's kWp depends on its project
+  const tableKwp = useMemo(() => {
+      const configs = new Map((projects || []).map(p => [p.id, projectPowerConfig(p)]));
+      const catalogue = buildCatalogue(trackerTypes);
+      return (table: Table) => calcSingleTableKwp(trackerOf(catalogue, table.type), configs.get(table.projectId) || projectPowerConfig());
+  }, [projects, trackerTypes]);
+
   const getMemberStats = (memberId: string) => {
       if (!attendanceAll || !tables) return { hours: 0, kw: 0, tables: 0 };
       
@@ -185,7 +194,7 @@ const TeamManagement: React.FC<Props> = ({ user }) => {
       const tableCount = memberTables.length;
       
       // Calculate exact kWp based on table types
-      const kwTotal = memberTables.reduce((sum, table) => sum + calcSingleTableKwp(table.type), 0);
+      const kwTotal = memberTables.reduce((sum, table) => sum + tableKwp(table), 0);
       const kw = Math.round(kwTotal * 10) / 10;
 
       return { hours, kw, tables: tableCount };
@@ -226,14 +235,14 @@ const TeamManagement: React.FC<Props> = ({ user }) => {
                 return isRelevantUser && t.completedAt && t.completedAt >= startOfDay && t.completedAt <= endOfDay;
             });
             
-            const dailyKwp = dailyTables.reduce((sum, t) => sum + calcSingleTableKwp(t.type), 0);
+            const dailyKwp = dailyTables.reduce((sum, t) => sum + tableKwp(t), 0);
             value = Math.round(dailyKwp * 10) / 10;
         }
 
         data.push({ label: dayLabel, value, fullDate: dateStr });
     }
     return data;
-  }, [tables, attendanceAll, chartMetric, isAdmin, user.id]);
+  }, [tables, attendanceAll, chartMetric, isAdmin, user.id, tableKwp]);
 
   const maxChartValue = Math.max(...chartData.map(d => d.value), 1); // Avoid div by zero
 
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { db } from '../db';
+import { db, deleteSynced } from '../db';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { UserProfile, Tool, ToolStatus } from '../types';
 import {
@@ -55,7 +55,7 @@ const ToolManagement: React.FC<Props> = ({ user }) => {
 
     const handleDeleteTool = async (id: string) => {
         if (window.confirm('Opravdu smazat toto nářadí?')) {
-            await db.tools.delete(id);
+            await deleteSynced('tools', [id]);
         }
     };
 
@@ -0,0 +1,177 @@
+import React, { useState, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { db, deleteSynced } from '../db';
+import { TrackerType } from '../types';
+import { ArrowLeft, Plus, Pencil, Trash2, Lock, Layers } from 'lucide-react';
+import { BUILTIN_TRACKER_TYPES, buildCatalogue, findTrackerType } from '../logic/trackerTypes';
+
+type Draft = Omit<TrackerType, 'updatedAt'>;
+
+const EMPTY_DRAFT: Draft = { id: '', code: '', name: '', vendor: '', strings: 1 };
+
+const OPTIONAL_FIELDS: { key: 'modules' | 'piles' | 'motors'; label: string }[] = [
+    { key: 'modules', label: 'Panelů' },
+    { key: 'piles', label: 'Pilot' },
+    { key: 'motors', label: 'Motorů' }
+];
+
+const BUILTIN_IDS = new Set(BUILTIN_TRACKER_TYPES.map(t => t.id));
+
+const optionalCount = (value: string) => {
+    const n = Math.round(Number(value));
+    return value.trim() && n > 0 ? n : undefined;
+};
+
+interface Props {
+    onBack: () => void;
+}
+
+/**
+ * Company-wide tracker types. The built-in S/M/L types are fixed; others can be
+ * edited freely and deleted once no project uses them.
+ */
+const TrackerCatalogueEditor: React.FC<Props> = ({ onBack }) => {
+    const [draft, setDraft] = useState<Draft | null>(null);
+
+    const trackerTypes = useLiveQuery(() => db.trackerTypes.toArray());
+    const projects = useLiveQuery(() => db.projects.toArray());
+    const catalogue = useMemo(() => buildCatalogue(trackerTypes), [trackerTypes]);
+
+    // Project table counts follow every layout change, so they tell which types are in use
+    const usage = useMemo(() => {
+        const counts = new Map<string, number>();
+        (projects || []).forEach(p => Object.entries(p.tableCounts).forEach(([id, n]) => {
+            if (n > 0) counts.set(id, (counts.get(id) || 0) + n);
+        }));
+        return counts;
+    }, [projects]);
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const code = draft.code.trim();
+        const name = draft.name.trim();
+        if (!code || !name || !(draft.strings > 0)) {
+            alert('Vyplňte kód, název a počet stringů.');
+            return;
+        }
+        // Layout files refer to types by code or name, both must stay unambiguous
+        const clash = findTrackerType(catalogue, code) || findTrackerType(catalogue, name);
+        if (clash && clash.id !== draft.id) {
+            alert(`Kód nebo název už používá typ ${clash.name}.`);
+            return;
+        }
+        await db.trackerTypes.put({
+            ...draft,
+            id: draft.id || uuidv4(),
+            code,
+            name,
+            vendor: draft.vendor?.trim() || undefined
+        });
+        setDraft(null);
+    };
+
+    const handleDelete = async (type: TrackerType) => {
+        if (usage.has(type.id)) {
+            alert(`Typ ${type.name} používá ${usage.get(type.id)} stolů, nelze ho smazat.`);
+            return;
+        }
+        if (!window.confirm(`Smazat typ ${type.name}?`)) return;
+        await deleteSynced('trackerTypes', [type.id]);
+    };
+
+    return (
+        <div className="glass-panel p-6 animate-fade-in space-y-4">
+            <div className="flex items-center justify-between text-slate-800">
+                <div className="flex items-center gap-2">
+                    <button onClick={onBack} className="p-1 rounded-full hover:bg-white/40"><ArrowLeft /></button>
+                    <h2 className="text-xl font-bold flex items-center gap-2"><Layers size={20} /> Typy trackerů</h2>
+                </div>
+                {!draft && (
+                    <button onClick={() => setDraft(EMPTY_DRAFT)} className="glass-button-primary px-3 py-1.5 text-sm flex items-center gap-1">
+                        <Plus size={16} /> Přidat
+                    </button>
+                )}
+            </div>
+
+            {draft && (
+                <div className="bg-white/40 p-3 rounded-xl space-y-2 animate-fade-in">
+                    <div className="grid grid-cols-3 gap-2">
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 ml-1">Kód</label>
+                            <input className="glass-input w-full mt-1 text-sm" placeholder="3S" value={draft.code} onChange={e => setDraft({ ...draft, code: e.target.value })} />
+                        </div>
+                        <div className="col-span-2">
+                            <label className="text-[10px] font-bold text-slate-500 ml-1">Název</label>
+                            <input className="glass-input w-full mt-1 text-sm" placeholder="Tracker 3 stringy" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        <div className="col-span-2">
+                            <label className="text-[10px] font-bold text-slate-500 ml-1">Výrobce</label>
+                            <input className="glass-input w-full mt-1 text-sm" value={draft.vendor || ''} onChange={e => setDraft({ ...draft, vendor: e.target.value })} />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 ml-1">Stringů</label>
+                            <input type="number" step={0.5} min={0.5} className="glass-input w-full mt-1 text-sm" value={draft.strings} onChange={e => setDraft({ ...draft, strings: Number(e.target.value) })} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        {OPTIONAL_FIELDS.map(field => (
+                            <div key={field.key}>
+                                <label className="text-[10px] font-bold text-slate-500 ml-1">{field.label}</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    className="glass-input w-full mt-1 text-sm"
+                                    placeholder="—"
+                                    value={draft[field.key] ?? ''}
+                                    onChange={e => setDraft({ ...draft, [field.key]: optionalCount(e.target.value) })}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-slate-500">Bez počtu panelů se počítá stringy × délka stringu projektu.</p>
+                    <div className="flex gap-2 justify-end">
+                        <button onClick={handleSave} className="bg-green-500 text-white px-3 py-1 rounded-lg text-xs font-bold">Uložit</button>
+                        <button onClick={() => setDraft(null)} className="bg-slate-300 text-slate-700 px-3 py-1 rounded-lg text-xs font-bold">Zrušit</button>
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {Array.from(catalogue.values()).map(type => {
+                    const builtin = BUILTIN_IDS.has(type.id);
+                    return (
+                        <div key={type.id} className="bg-white/30 p-3 rounded-xl flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-mono font-bold text-xs bg-slate-700 text-white px-1.5 py-0.5 rounded">{type.code}</span>
+                                    <span className="font-bold text-slate-800 text-sm truncate">{type.name}</span>
+                                    {type.vendor && <span className="text-[10px] text-slate-500 truncate">{type.vendor}</span>}
+                                </div>
+                                <div className="text-[10px] text-slate-500 mt-1">
+                                    {type.strings} str.
+                                    {type.modules !== undefined && ` • ${type.modules} panelů`}
+                                    {type.piles !== undefined && ` • ${type.piles} pilot`}
+                                    {type.motors !== undefined && ` • ${type.motors} mot.`}
+                                    {` • ${usage.get(type.id) || 0} stolů`}
+                                </div>
+                            </div>
+                            {builtin ? (
+                                <Lock size={14} className="text-slate-400 shrink-0" />
+                            ) : (
+                                <div className="flex gap-1 shrink-0">
+                                    <button onClick={() => setDraft({ vendor: '', ...type })} className="p-1.5 text-slate-500 hover:text-blue-600 hover:bg-white/50 rounded-lg"><Pencil size={14} /></button>
+                                    <button onClick={() => handleDelete(type)} className="p-1.5 text-slate-500 hover:text-red-500 hover:bg-white/50 rounded-lg"><Trash2 size={14} /></button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default TrackerCatalogueEditor;
@@ -1,5 +1,26 @@
 import Dexie, { type Table as DexieTable } from 'dexie';
-import { Project, Table, TeamMember, AttendanceRecord, AccessLog, UserProfile, Tool, ChatMessage, DailyReport } from './types';
+import { v4 as uuidv4 } from 'uuid';
+import { Project, Table, TeamMember, AttendanceRecord, AccessLog, UserProfile, Tool, ChatMessage, DailyReport, SyncEntity, Tombstone, SyncConflict, OutboxBatch, SyncJournalEntry, TableStatusChange, TablePhoto, Issue, TrackerType, Inverter, CombinerBox } from './types';
+import { LOCAL_ONLY_FIELDS } from './logic/syncMerge';
+import { legacyTableCounts } from './logic/trackerTypes';
+
+// Collections exchanged with the sync backend, in payload order
+export const SYNC_ENTITIES: SyncEntity[] = ['projects', 'trackerTypes', 'tables', 'tableHistory', 'issues', 'inverters', 'combinerBoxes', 'team', 'attendance', 'tools', 'chat', 'dailyReports', 'logs'];
+
+/**
+ * Stamps `updatedAt` on every write so delta sync can pick up changed records.
+ * Writes that already carry an explicit `updatedAt` (data applied from the cloud) keep it.
+ */
+const trackChanges = (table: DexieTable<any, any>) => {
+  table.hook('creating', (_key, obj) => {
+    if (obj.updatedAt === undefined) obj.updatedAt = Date.now();
+  });
+  table.hook('updating', (mods: Record<string, unknown>) => {
+    const keys = Object.keys(mods);
+    if ('updatedAt' in mods || keys.every(k => LOCAL_ONLY_FIELDS.includes(k))) return;
+    return { updatedAt: Date.now() };
+  });
+};
 
 export class MSTDatabase extends Dexie {
   projects!: DexieTable<Project, string>;
@@ -11,6 +32,16 @@ export class MSTDatabase extends Dexie {
   users!: DexieTable<UserProfile, string>;
   chat!: DexieTable<ChatMessage, string>;
   dailyReports!: DexieTable<DailyReport, string>;
+  tombstones!: DexieTable<Tombstone, [SyncEntity, string]>;
+  conflicts!: DexieTable<SyncConflict, string>;
+  outbox!: DexieTable<OutboxBatch, number>;
+  syncJournal!: DexieTable<SyncJournalEntry, number>;
+  tableHistory!: DexieTable<TableStatusChange, string>;
+  tablePhotos!: DexieTable<TablePhoto, string>;
+  issues!: DexieTable<Issue, string>;
+  trackerTypes!: DexieTable<TrackerType, string>;
+  inverters!: DexieTable<Inverter, string>;
+  combinerBoxes!: DexieTable<CombinerBox, string>;
 
   constructor() {
     super('MST_DB');
@@ -26,7 +57,125 @@ export class MSTDatabase extends Dexie {
       chat: 'id, timestamp, senderId, projectId, isRead',
       dailyReports: 'id, date, generatedAt'
     });
+
+    // Version 7: index updatedAt for delta sync, stamp existing records
+    this.version(7).stores({
+      projects: 'id, lastSynced, updatedAt',
+      projectTables: 'id, projectId, status, completedBy, updatedAt',
+      team: 'id, name, email, currentProjectId, updatedAt',
+      attendance: 'id, memberId, date, synced, updatedAt'
+    }).upgrade(async tx => {
+      const now = Date.now();
+      for (const name of ['projects', 'projectTables', 'team', 'attendance']) {
+        await tx.table(name).toCollection().modify(record => {
+          if (record.updatedAt === undefined) record.updatedAt = now;
+        });
+      }
+    });
+
+    // Version 8: deletion tombstones and unresolved sync conflicts
+    this.version(8).stores({
+      tombstones: '[entity+id], entity, deletedAt',
+      conflicts: 'id, entity, detectedAt'
+    });
+
+    // Version 9: persistent outbox of sync batches waiting for delivery
+    this.version(9).stores({
+      outbox: '++id, nextAttemptAt'
+    });
+
+    // Version 10: tools, chat, reports and logs join delta sync
+    this.version(10).stores({
+      tools: 'id, status, borrowedBy, updatedAt',
+      chat: 'id, timestamp, senderId, projectId, isRead, updatedAt',
+      dailyReports: 'id, date, generatedAt, updatedAt',
+      logs: '++id, timestamp, action, &syncId, updatedAt'
+    }).upgrade(async tx => {
+      const now = Date.now();
+      for (const name of ['tools', 'chat', 'dailyReports', 'logs']) {
+        await tx.table(name).toCollection().modify(record => {
+          if (record.updatedAt === undefined) record.updatedAt = now;
+          if (name === 'logs' && !record.syncId) record.syncId = uuidv4();
+        });
+      }
+    });
+
+    // Version 11: journal of sync attempts for diagnostics
+    this.version(11).stores({
+      syncJournal: '++id, startedAt, direction, status'
+    });
+
+    // Version 12: table status history (synced) and field photos (device only)
+    this.version(12).stores({
+      tableHistory: 'id, tableId, projectId, at, updatedAt',
+      tablePhotos: 'id, tableId, projectId, takenAt'
+    });
+
+    // Version 13: issue reports linked to tables; issue photos stay in tablePhotos
+    this.version(13).stores({
+      issues: 'id, projectId, *tableIds, category, severity, assignee, reportedAt, resolvedAt, updatedAt',
+      tablePhotos: 'id, tableId, projectId, takenAt, issueId'
+    });
+
+    // Version 14: company tracker catalogue; project table counts keyed by tracker type ID
+    this.version(14).stores({
+      trackerTypes: 'id, code, updatedAt'
+    }).upgrade(async tx => {
+      await tx.table('projects').toCollection().modify(project => {
+        project.tableCounts = legacyTableCounts(project.tableCounts);
+      });
+      await tx.table('conflicts').where('entity').equals('projects').modify(conflict => {
+        conflict.local.tableCounts = legacyTableCounts(conflict.local.tableCounts);
+        conflict.remote.tableCounts = legacyTableCounts(conflict.remote.tableCounts);
+      });
+    });
+
+    // Version 15: electrical topology, tables are linked to combiner boxes
+    this.version(15).stores({
+      projectTables: 'id, projectId, status, completedBy, combinerBoxId, updatedAt',
+      inverters: 'id, projectId, updatedAt',
+      combinerBoxes: 'id, projectId, inverterId, updatedAt'
+    });
+
+    [this.projects, this.trackerTypes, this.projectTables, this.tableHistory, this.issues, this.inverters, this.combinerBoxes, this.team, this.attendance, this.tools, this.chat, this.dailyReports, this.logs].forEach(trackChanges);
+    this.logs.hook('creating', (_key, obj) => {
+      if (!obj.syncId) obj.syncId = uuidv4();
+    });
+  }
+
+  /**
+   * Maps a sync payload collection to the Dexie table holding it.
+   */
+  syncTable(entity: SyncEntity): DexieTable<any, string> {
+    switch (entity) {
+      case 'projects': return this.projects;
+      case 'trackerTypes': return this.trackerTypes;
+      case 'tables': return this.projectTables;
+      case 'tableHistory': return this.tableHistory;
+      case 'issues': return this.issues;
+      case 'inverters': return this.inverters;
+      case 'combinerBoxes': return this.combinerBoxes;
+      case 'team': return this.team;
+      case 'attendance': return this.attendance;
+      case 'tools': return this.tools;
+      case 'chat': return this.chat;
+      case 'dailyReports': return this.dailyReports;
+      case 'logs': return this.logs as DexieTable<any, any>;
+    }
   }
 }
 
-export const db = new MSTDatabase();
\ No newline at end of file
+export const db = new MSTDatabase();
+
+/**
+ * Deletes synced records and leaves tombstones so the deletion reaches other devices.
+ */
+export const deleteSynced = async (entity: SyncEntity, ids: string[]) => {
+  if (ids.length === 0) return;
+  const table = db.syncTable(entity);
+  const deletedAt = Date.now();
+  await db.transaction('rw', table, db.tombstones, async () => {
+    await table.bulkDelete(ids);
+    await db.tombstones.bulkPut(ids.map(id => ({ entity, id, deletedAt })));
+  });
+};
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { CombinerBox, Inverter, PowerConfig, Table, TableStatus } from '../types';
+import { calcSingleTableKwp, calcStringVoc, MAX_SYSTEM_VOLTAGE_V } from './powerCalc';
+import { TrackerCatalogue, trackerOf } from './trackerTypes';
+
+// DC/AC ratio window of our inverter designs: below it the inverter is oversized,
+// above it clipping losses are no longer worth the extra modules
+export const DC_AC_RATIO_MIN = 1.0;
+export const DC_AC_RATIO_MAX = 1.35;
+
+export type DcAcRatioStatus = 'ok' | 'low' | 'high' | 'empty';
+
+export interface CombinerBoxSummary {
+    box: CombinerBox;
+    tables: number;
+    completed: number;
+    strings: number; // Distinct strings landed in the box
+    dcKwp: number;
+}
+
+export interface InverterSummary {
+    inverter: Inverter;
+    boxes: CombinerBoxSummary[];
+    tables: number;
+    completed: number;
+    dcKwp: number;
+    ratio: number | null; // DC kWp / AC kW; null without AC rating
+    ratioStatus: DcAcRatioStatus;
+    ready: boolean; // Every table feeding the inverter is installed
+}
+
+export interface TopologySummary {
+    inverters: InverterSummary[];
+    unassigned: number; // Tables not linked to any combiner box
+    stringVoc: number;
+    stringVocExceeded: boolean;
+}
+
+const EPSILON = 1e-6;
+
+export const dcAcRatioStatus = (dcKwp: number, acPowerKw: number): DcAcRatioStatus => {
+    if (dcKwp <= 0 || acPowerKw <= 0) return 'empty';
+    const ratio = dcKwp / acPowerKw;
+    if (ratio < DC_AC_RATIO_MIN) return 'low';
+    if (ratio > DC_AC_RATIO_MAX) return 'high';
+    return 'ok';
+};
+
+const stringNumber = (id: string, prefix: string) => {
+    const n = id.startsWith(prefix) ? parseInt(id.slice(prefix.length), 10) : NaN;
+    return Number.isFinite(n) ? n : 0;
+};
+
+/**
+ * Links tables to a combiner box and numbers their strings after the ones already
+ * in the box ("CB01-S01", "CB01-S02"...). Fractional trackers fill a string before
+ * the next one starts, so two half-string tables in a row share one string ID.
+ * Returns the changes for the given tables; the caller writes them.
+ */
+export const assignStrings = (
+    tables: Table[],
+    box: CombinerBox,
+    boxTables: Table[],
+    catalogue: TrackerCatalogue
+): Pick<Table, 'id' | 'combinerBoxId' | 'stringIds'>[] => {
+    const prefix = `${box.name}-S`;
+    const moving = new Set(tables.map(t => t.id));
+    let last = boxTables
+        .filter(t => !moving.has(t.id))
+        .flatMap(t => t.stringIds || [])
+        .reduce((max, id) => Math.max(max, stringNumber(id, prefix)), 0);
+    let filled = 0; // Part of the current string already taken by previous tables
+
+    return [...tables]
+        .sort((a, b) => a.index - b.index)
+        .map(table => {
+            const stringIds: string[] = [];
+            let left = trackerOf(catalogue, table.type).strings;
+            while (left > EPSILON) {
+                if (filled === 0) last++;
+                const take = Math.min(left, 1 - filled);
+                stringIds.push(`${prefix}${String(last).padStart(2, '0')}`);
+                filled += take;
+                left -= take;
+                if (filled >= 1 - EPSILON) filled = 0;
+            }
+            return { id: table.id, combinerBoxId: box.id, stringIds };
+        });
+};
+
+/**
+ * DC capacity, DC/AC ratio and energization readiness of each inverter of a project.
+ */
+export const calcTopology = (
+    tables: Table[],
+    inverters: Inverter[],
+    boxes: CombinerBox[],
+    catalogue: TrackerCatalogue,
+    config: PowerConfig
+): TopologySummary => {
+    const boxSummaries = new Map<string, CombinerBoxSummary>(
+        boxes.map(box => [box.id, { box, tables: 0, completed: 0, strings: 0, dcKwp: 0 }])
+    );
+    const boxStrings = new Map<string, Set<string>>();
+    let unassigned = 0;
+
+    for (const table of tables) {
+        const summary = table.combinerBoxId ? boxSummaries.get(table.combinerBoxId) : undefined;
+        if (!summary) {
+            unassigned++;
+            continue;
+        }
+        summary.tables++;
+        if (table.status === TableStatus.Completed) summary.completed++;
+        summary.dcKwp += calcSingleTableKwp(trackerOf(catalogue, table.type), config);
+        const strings = boxStrings.get(summary.box.id) || new Set<string>();
+        (table.stringIds || []).forEach(id => strings.add(id));
+        boxStrings.set(summary.box.id, strings);
+    }
+    boxStrings.forEach((strings, boxId) => { boxSummaries.get(boxId)!.strings = strings.size; });
+
+    const summaries = inverters.map(inverter => {
+        const invBoxes = Array.from(boxSummaries.values())
+            .filter(b => b.box.inverterId === inverter.id)
+            .sort((a, b) => a.box.name.localeCompare(b.box.name, undefined, { numeric: true }));
+        const tableCount = invBoxes.reduce((sum, b) => sum + b.tables, 0);
+        const completed = invBoxes.reduce((sum, b) => sum + b.completed, 0);
+        const dcKwp = invBoxes.reduce((sum, b) => sum + b.dcKwp, 0);
+        return {
+            inverter,
+            boxes: invBoxes,
+            tables: tableCount,
+            completed,
+            dcKwp,
+            ratio: inverter.acPowerKw > 0 ? dcKwp / inverter.acPowerKw : null,
+            ratioStatus: dcAcRatioStatus(dcKwp, inverter.acPowerKw),
+            ready: tableCount > 0 && completed === tableCount
+        };
+    });
+    summaries.sort((a, b) => a.inverter.name.localeCompare(b.inverter.name, undefined, { numeric: true }));
+
+    const stringVoc = calcStringVoc(config);
+    return { inverters: summaries, unassigned, stringVoc, stringVocExceeded: stringVoc > MAX_SYSTEM_VOLTAGE_V };
+};
@@ -0,0 +1,139 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days of history behind the rolling velocity
+export const VELOCITY_WINDOW_DAYS = 14;
+
+// Stalled projects are flagged at risk once the deadline is this close
+export const STALL_WARNING_DAYS = 14;
+
+// z-score of the confidence band around the projected finish (80 %, two-sided)
+const BAND_Z = 1.28;
+
+export interface Completion {
+    completedAt: number;
+    kwp: number;
+}
+
+export interface BurnUpPoint {
+    day: number; // Local midnight
+    tables: number; // Cumulative
+    kwp: number; // Cumulative
+}
+
+export interface Velocity {
+    tablesPerDay: number;
+    kwpPerDay: number;
+    days: number; // Length of the window actually used; shorter for new projects
+}
+
+export interface ProjectForecast {
+    burnUp: BurnUpPoint[];
+    velocity: Velocity | null; // Null before the first completion
+    remaining: number; // Tables left
+    expected: number | null; // Projected completion day; null when nothing is moving
+    early: number | null;
+    late: number | null;
+    slipDays: number | null; // Days the forecast is past the deadline (negative = ahead); null without deadline
+    stalled: boolean; // Tables remain but nothing was completed within the velocity window
+    atRisk: boolean; // Forecast past the deadline, or stalled with the deadline near or past
+}
+
+export const startOfDay = (timestamp: number) => {
+    const d = new Date(timestamp);
+    d.setHours(0, 0, 0, 0);
+    return d.getTime();
+};
+
+const addDays = (day: number, days: number) => {
+    // Via the calendar, so DST changes do not shift the result off midnight
+    const d = new Date(day);
+    d.setDate(d.getDate() + days);
+    return d.getTime();
+};
+
+// Local midnight of a YYYY-MM-DD date (Project.deadline)
+export const dateToDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const daysBetween = (from: number, to: number) => Math.round((startOfDay(to) - startOfDay(from)) / DAY_MS);
+
+/**
+ * Cumulative installed tables and kWp per day, from the first completion to today.
+ */
+export const buildBurnUp = (completions: Completion[], now = Date.now()): BurnUpPoint[] => {
+    if (completions.length === 0) return [];
+    const perDay = new Map<number, { tables: number; kwp: number }>();
+    completions.forEach(c => {
+        const day = startOfDay(c.completedAt);
+        const entry = perDay.get(day) || { tables: 0, kwp: 0 };
+        entry.tables++;
+        entry.kwp += c.kwp;
+        perDay.set(day, entry);
+    });
+
+    const first = Math.min(...perDay.keys());
+    const last = Math.max(startOfDay(now), ...perDay.keys());
+    const points: BurnUpPoint[] = [];
+    let tables = 0;
+    let kwp = 0;
+    for (let day = first; day <= last; day = addDays(day, 1)) {
+        const entry = perDay.get(day);
+        tables += entry?.tables || 0;
+        kwp += entry?.kwp || 0;
+        points.push({ day, tables, kwp });
+    }
+    return points;
+};
+
+/**
+ * Compares the forecast with the deadline. A stalled project cannot finish before
+ * today, so its slip is counted from today and is a lower bound.
+ */
+const withDeadline = (result: ProjectForecast, today: number, deadline?: number): ProjectForecast => {
+    result.stalled = result.remaining > 0 && result.expected === null;
+    if (deadline === undefined) return result;
+    result.slipDays = daysBetween(deadline, result.expected ?? today);
+    result.atRisk = result.stalled ? result.slipDays > -STALL_WARNING_DAYS : result.slipDays > 0;
+    return result;
+};
+
+/**
+ * Projects the finish from the daily completions of the last VELOCITY_WINDOW_DAYS.
+ * Daily output is treated as independent draws, so the spread of the finish date
+ * grows with the square root of the days left rather than linearly.
+ */
+export const calcForecast = (completions: Completion[], totalTables: number, now = Date.now(), deadline?: number): ProjectForecast => {
+    const burnUp = buildBurnUp(completions, now);
+    const done = burnUp.length > 0 ? burnUp[burnUp.length - 1].tables : 0;
+    const remaining = Math.max(totalTables - done, 0);
+    const result: ProjectForecast = { burnUp, velocity: null, remaining, expected: null, early: null, late: null, slipDays: null, stalled: false, atRisk: false };
+    const today = startOfDay(now);
+    if (burnUp.length === 0) return withDeadline(result, today, deadline);
+
+    if (remaining === 0) {
+        // Finished: the last completion is the actual end date
+        const finished = startOfDay(completions.reduce((max, c) => Math.max(max, c.completedAt), 0));
+        result.expected = result.early = result.late = finished;
+    }
+
+    const window = burnUp.slice(-VELOCITY_WINDOW_DAYS);
+    const before = burnUp.length > window.length ? burnUp[burnUp.length - window.length - 1] : { tables: 0, kwp: 0 };
+    const daily = window.map((p, i) => p.tables - (i === 0 ? before.tables : window[i - 1].tables));
+    const days = window.length;
+    const tablesPerDay = (window[days - 1].tables - before.tables) / days;
+    result.velocity = { tablesPerDay, kwpPerDay: (window[days - 1].kwp - before.kwp) / days, days };
+
+    if (remaining > 0 && tablesPerDay > 0) {
+        const variance = daily.reduce((sum, n) => sum + (n - tablesPerDay) ** 2, 0) / Math.max(days - 1, 1);
+        const spread = BAND_Z * Math.sqrt(variance);
+        // Days t where t·rate ± z·σ·√t covers the remaining tables, solved for √t
+        const rootDays = (sign: number) => {
+            const root = (sign * spread + Math.sqrt(spread ** 2 + 4 * tablesPerDay * remaining)) / (2 * tablesPerDay);
+            return Math.ceil(root * root);
+        };
+        result.expected = addDays(today, Math.ceil(remaining / tablesPerDay));
+        result.early = addDays(today, rootDays(-1));
+        result.late = addDays(today, rootDays(1));
+    }
+
+    return withDeadline(result, today, deadline);
+};
@@ -0,0 +1,170 @@
+// Minimal encoders for exporting rendered map frames without extra dependencies.
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, crc = 0): number => {
+    let c = crc ^ 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+};
+
+// --- Animated PNG ---
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+interface PngChunk {
+    type: string;
+    data: Uint8Array;
+}
+
+const readChunks = (png: ArrayBuffer): PngChunk[] => {
+    const view = new DataView(png);
+    const bytes = new Uint8Array(png);
+    const chunks: PngChunk[] = [];
+    let pos = PNG_SIGNATURE.length;
+    while (pos + 8 <= bytes.length) {
+        const length = view.getUint32(pos);
+        const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+        chunks.push({ type, data: bytes.subarray(pos + 8, pos + 8 + length) });
+        pos += 12 + length;
+    }
+    return chunks;
+};
+
+const writeChunk = (type: string, data: Uint8Array): Uint8Array<ArrayBuffer> => {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let pos = 0;
+    parts.forEach(p => { out.set(p, pos); pos += p.length; });
+    return out;
+};
+
+/**
+ * Joins same-sized PNG frames into one looping APNG. The frames keep their
+ * compressed image data; only the chunk framing is rewritten.
+ */
+export const encodeApng = (frames: ArrayBuffer[], delaysMs: number[]): Blob => {
+    if (frames.length === 0) throw new Error('No frames to encode');
+    const parsed = frames.map(readChunks);
+    const header = parsed[0].find(c => c.type === 'IHDR');
+    if (!header) throw new Error('Invalid PNG frame');
+    const headerKey = header.data.join(',');
+    if (parsed.some(chunks => chunks.find(c => c.type === 'IHDR')?.data.join(',') !== headerKey)) {
+        throw new Error('Frames differ in size or colour format');
+    }
+    const view = new DataView(header.data.buffer, header.data.byteOffset);
+    const width = view.getUint32(0);
+    const height = view.getUint32(4);
+
+    const parts: Uint8Array<ArrayBuffer>[] = [new Uint8Array(PNG_SIGNATURE), writeChunk('IHDR', header.data)];
+    const animation = new Uint8Array(8);
+    new DataView(animation.buffer).setUint32(0, frames.length); // num_plays 0 = loop forever
+    parts.push(writeChunk('acTL', animation));
+
+    let sequence = 0;
+    parsed.forEach((chunks, i) => {
+        const control = new Uint8Array(26);
+        const cv = new DataView(control.buffer);
+        cv.setUint32(0, sequence++);
+        cv.setUint32(4, width);
+        cv.setUint32(8, height);
+        cv.setUint16(20, Math.min(Math.round(delaysMs[i] ?? delaysMs[delaysMs.length - 1] ?? 500), 65535));
+        cv.setUint16(22, 1000);
+        parts.push(writeChunk('fcTL', control));
+
+        const image = concatBytes(chunks.filter(c => c.type === 'IDAT').map(c => c.data));
+        if (i === 0) {
+            parts.push(writeChunk('IDAT', image));
+        } else {
+            const data = new Uint8Array(4 + image.length);
+            new DataView(data.buffer).setUint32(0, sequence++);
+            data.set(image, 4);
+            parts.push(writeChunk('fdAT', data));
+        }
+    });
+    parts.push(writeChunk('IEND', new Uint8Array(0)));
+    return new Blob(parts, { type: 'image/apng' });
+};
+
+// --- ZIP (stored, PNGs are already compressed) ---
+
+export interface ZipEntry {
+    name: string;
+    data: ArrayBuffer;
+}
+
+export const zipFiles = (entries: ZipEntry[], modified = new Date()): Blob => {
+    const encoder = new TextEncoder();
+    // MS-DOS timestamp, 2 s precision
+    const dosTime = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2);
+    const dosDate = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+    const parts: Uint8Array<ArrayBuffer>[] = [];
+    const central: Uint8Array<ArrayBuffer>[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const data = new Uint8Array(entry.data);
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(4, 20, true); // Version needed
+        lv.setUint16(6, 0x0800, true); // UTF-8 names
+        lv.setUint16(10, dosTime, true);
+        lv.setUint16(12, dosDate, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, data.length, true);
+        lv.setUint32(22, data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const record = new Uint8Array(46 + name.length);
+        const cv = new DataView(record.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(4, 20, true);
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(12, dosTime, true);
+        cv.setUint16(14, dosDate, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, data.length, true);
+        cv.setUint32(24, data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        record.set(name, 46);
+
+        parts.push(local, data);
+        central.push(record);
+        offset += local.length + data.length;
+    }
+
+    const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
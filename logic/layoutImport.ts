@@ -0,0 +1,307 @@
+import { CELL_HEIGHT, CELL_WIDTH } from './mapGeometry';
+import { countByType, DEFAULT_CATALOGUE, findTrackerType, TrackerCatalogue } from './trackerTypes';
+
+export type LayoutFormat = 'csv' | 'geojson' | 'dxf';
+
+// One table as read from a layout file, in the file's own units
+export interface LayoutEntry {
+    index?: number;
+    type: string; // Tracker type ID
+    x: number;
+    y: number;
+    row?: string;
+    block?: string;
+}
+
+// Layout ready to be written to projectTables: grid coordinates and unique indexes
+export interface SiteLayout {
+    tables: (LayoutEntry & { index: number })[];
+    counts: Record<string, number>; // Tables per tracker type ID
+    warnings: string[];
+}
+
+export class LayoutParseError extends Error {}
+
+// Tracker type ID for a type column value, null if the catalogue has no such type
+type TypeMatcher = (value: unknown) => string | null;
+
+const optionalText = (value: unknown) => {
+    const text = String(value ?? '').trim();
+    return text || undefined;
+};
+
+const optionalIndex = (value: unknown) => {
+    const n = parseInt(String(value ?? ''), 10);
+    return Number.isFinite(n) ? n : undefined;
+};
+
+// --- CSV: header with index,type,x,y,row,block (any order, ; or , separated) ---
+
+const parseCsv = (text: string, parseType: TypeMatcher, warnings: string[]): LayoutEntry[] => {
+    const lines = text.split(/\r?\n/).filter(l => l.trim());
+    if (lines.length < 2) throw new LayoutParseError('CSV neobsahuje žádné stoly.');
+
+    const separator = lines[0].includes(';') ? ';' : ',';
+    const header = lines[0].split(separator).map(h => h.trim().toLowerCase());
+    const col = (name: string) => header.indexOf(name);
+    if (col('x') < 0 || col('y') < 0 || col('type') < 0) {
+        throw new LayoutParseError('CSV musí obsahovat sloupce type, x a y.');
+    }
+
+    const entries: LayoutEntry[] = [];
+    lines.slice(1).forEach((line, i) => {
+        const cells = line.split(separator).map(c => c.trim());
+        const type = parseType(cells[col('type')]);
+        const x = parseFloat(cells[col('x')]);
+        const y = parseFloat(cells[col('y')]);
+        if (!type || !Number.isFinite(x) || !Number.isFinite(y)) {
+            warnings.push(`Řádek ${i + 2}: neplatný typ nebo souřadnice, přeskočeno.`);
+            return;
+        }
+        entries.push({
+            index: col('index') >= 0 ? optionalIndex(cells[col('index')]) : undefined,
+            type,
+            x,
+            y,
+            row: col('row') >= 0 ? optionalText(cells[col('row')]) : undefined,
+            block: col('block') >= 0 ? optionalText(cells[col('block')]) : undefined
+        });
+    });
+    return entries;
+};
+
+// --- GeoJSON: Point or Polygon features, table data in properties ---
+
+// Only the parts read here; everything else in the file is ignored
+interface GeoJsonGeometry {
+    type: string;
+    coordinates: unknown;
+}
+
+interface GeoJsonFeature {
+    properties?: unknown;
+    geometry?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// [x, y] of a GeoJSON position, null unless both are finite numbers
+const toPosition = (value: unknown): [number, number] | null => {
+    if (!Array.isArray(value)) return null;
+    const [x, y] = value;
+    return typeof x === 'number' && typeof y === 'number' && Number.isFinite(x) && Number.isFinite(y) ? [x, y] : null;
+};
+
+const isGeometry = (value: unknown): value is GeoJsonGeometry => isObject(value) && typeof value.type === 'string';
+
+const firstOf = (value: unknown): unknown => Array.isArray(value) ? value[0] : undefined;
+
+// Average of the outer ring (or the point itself); good enough for table footprints
+const featureCenter = (geometry: unknown): [number, number] | null => {
+    if (!isGeometry(geometry)) return null;
+    if (geometry.type === 'Point') return toPosition(geometry.coordinates);
+    const ring =
+        geometry.type === 'Polygon' ? firstOf(geometry.coordinates) :
+        geometry.type === 'MultiPolygon' ? firstOf(firstOf(geometry.coordinates)) :
+        geometry.type === 'LineString' ? geometry.coordinates : undefined;
+    if (!Array.isArray(ring) || ring.length === 0) return null;
+    const points = ring.map(toPosition);
+    if (points.some(p => !p)) return null;
+    const sum = (points as [number, number][]).reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1]], [0, 0]);
+    return [sum[0] / ring.length, sum[1] / ring.length];
+};
+
+const parseGeoJson = (text: string, parseType: TypeMatcher, warnings: string[]): LayoutEntry[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new LayoutParseError('Neplatný GeoJSON.');
+    }
+    if (!isObject(data)) throw new LayoutParseError('Neplatný GeoJSON.');
+    const list = data.type === 'FeatureCollection' ? data.features : [data];
+    if (!Array.isArray(list)) throw new LayoutParseError('GeoJSON neobsahuje seznam prvků.');
+    const features: GeoJsonFeature[] = list.map(f => isObject(f) ? f : {});
+
+    const entries: LayoutEntry[] = [];
+    features.forEach((feature, i) => {
+        // Property names vary between tools, so match them case-insensitively
+        const props: Record<string, unknown> = {};
+        if (isObject(feature.properties)) {
+            Object.entries(feature.properties).forEach(([k, v]) => { props[k.toLowerCase()] = v; });
+        }
+        const center = featureCenter(feature.geometry);
+        const type = parseType(props.type ?? props.table_type);
+        if (!center || !type) {
+            warnings.push(`Prvek ${i + 1}: chybí geometrie nebo typ stolu, přeskočeno.`);
+            return;
+        }
+        entries.push({
+            index: optionalIndex(props.index),
+            type,
+            x: center[0],
+            y: center[1],
+            row: optionalText(props.row),
+            block: optionalText(props.block)
+        });
+    });
+
+    // WGS84 input: project to metres so both axes share one scale
+    const isGeographic = entries.length > 0 && entries.every(e => Math.abs(e.x) <= 180 && Math.abs(e.y) <= 90);
+    if (isGeographic) {
+        const lat0 = entries.reduce((sum, e) => sum + e.y, 0) / entries.length;
+        const metresPerLon = 111320 * Math.cos(lat0 * Math.PI / 180);
+        entries.forEach(e => {
+            e.x = e.x * metresPerLon;
+            e.y = e.y * 110540;
+        });
+    }
+    return entries;
+};
+
+// --- DXF: INSERT entities of table blocks, optional ATTRIBs (INDEX, TYPE, ROW, BLOCK) ---
+
+const parseDxf = (text: string, parseType: TypeMatcher, warnings: string[]): LayoutEntry[] => {
+    const lines = text.split(/\r?\n/);
+    const pairs: [number, string][] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        pairs.push([parseInt(lines[i].trim(), 10), lines[i + 1].trim()]);
+    }
+
+    const start = pairs.findIndex(([code, value], i) => code === 2 && value === 'ENTITIES' && pairs[i - 1]?.[1] === 'SECTION');
+    if (start < 0) throw new LayoutParseError('DXF neobsahuje sekci ENTITIES.');
+
+    interface Insert { blockName: string; layer?: string; x: number; y: number; attribs: Record<string, string> }
+    const inserts: Insert[] = [];
+    let current: Insert | null = null;
+    let attribTag = '';
+    let attribValue = '';
+    let inAttrib = false;
+
+    const closeAttrib = () => {
+        if (current && inAttrib && attribTag) current.attribs[attribTag.toUpperCase()] = attribValue;
+        inAttrib = false;
+        attribTag = '';
+        attribValue = '';
+    };
+
+    for (let i = start + 1; i < pairs.length; i++) {
+        const [code, value] = pairs[i];
+        if (code === 0) {
+            closeAttrib();
+            if (value === 'INSERT') {
+                current = { blockName: '', x: NaN, y: NaN, attribs: {} };
+                inserts.push(current);
+            } else if (value === 'ATTRIB' && current) {
+                inAttrib = true;
+            } else {
+                // SEQEND closes the attribute list; any other entity is not a table
+                current = null;
+            }
+            if (value === 'ENDSEC') break;
+            continue;
+        }
+        if (!current) continue;
+        if (inAttrib) {
+            if (code === 2) attribTag = value;
+            if (code === 1) attribValue = value;
+            continue;
+        }
+        if (code === 2) current.blockName = value;
+        if (code === 8) current.layer = value;
+        if (code === 10) current.x = parseFloat(value);
+        if (code === 20) current.y = parseFloat(value);
+    }
+
+    const entries: LayoutEntry[] = [];
+    inserts.forEach((insert, i) => {
+        // Type from the TYPE attribute, else the block name suffix (TABLE_L, TRACKER-M ...)
+        const type = parseType(insert.attribs.TYPE) ?? parseType(insert.blockName.split(/[_\-\s]/).pop());
+        if (!type || !Number.isFinite(insert.x) || !Number.isFinite(insert.y)) {
+            warnings.push(`Blok ${i + 1} (${insert.blockName || '?'}): neznámý typ stolu, přeskočeno.`);
+            return;
+        }
+        entries.push({
+            index: optionalIndex(insert.attribs.INDEX),
+            type,
+            x: insert.x,
+            y: insert.y,
+            row: optionalText(insert.attribs.ROW),
+            block: optionalText(insert.attribs.BLOCK) ?? optionalText(insert.layer)
+        });
+    });
+    return entries;
+};
+
+export const detectLayoutFormat = (fileName: string, text: string): LayoutFormat => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    if (ext === 'dxf') return 'dxf';
+    if (ext === 'geojson' || ext === 'json') return 'geojson';
+    if (ext === 'csv' || ext === 'txt') return 'csv';
+    if (text.trimStart().startsWith('{')) return 'geojson';
+    return /^\s*0\s*\r?\n\s*SECTION/.test(text) ? 'dxf' : 'csv';
+};
+
+/**
+ * Median distance from each table to its nearest neighbour, used as the plant's
+ * table pitch. Sampled so large parks stay fast.
+ */
+const tablePitch = (entries: LayoutEntry[]) => {
+    const step = Math.max(Math.floor(entries.length / 200), 1);
+    const distances: number[] = [];
+    for (let i = 0; i < entries.length; i += step) {
+        let best = Infinity;
+        for (let j = 0; j < entries.length; j++) {
+            if (i === j) continue;
+            const d = Math.hypot(entries[i].x - entries[j].x, entries[i].y - entries[j].y);
+            if (d > 0 && d < best) best = d;
+        }
+        if (best < Infinity) distances.push(best);
+    }
+    if (distances.length === 0) return 1;
+    distances.sort((a, b) => a - b);
+    return distances[Math.floor(distances.length / 2)];
+};
+
+/**
+ * Parses a layout file and maps it into CanvasMap grid coordinates: the origin
+ * moves to the top-left table, the Y axis is flipped (CAD/GIS Y points north) and
+ * the typical table pitch becomes one cell, keeping the plant's proportions.
+ * Missing or duplicate indexes are numbered after the highest one in the file.
+ * Table types are matched against the tracker catalogue by code or name.
+ */
+export const parseSiteLayout = (fileName: string, text: string, catalogue: TrackerCatalogue = DEFAULT_CATALOGUE): SiteLayout => {
+    const warnings: string[] = [];
+    const parseType: TypeMatcher = value => findTrackerType(catalogue, value)?.id ?? null;
+    const format = detectLayoutFormat(fileName, text);
+    const entries = format === 'dxf' ? parseDxf(text, parseType, warnings)
+        : format === 'geojson' ? parseGeoJson(text, parseType, warnings)
+        : parseCsv(text, parseType, warnings);
+    if (entries.length === 0) throw new LayoutParseError('Soubor neobsahuje žádné stoly.');
+
+    // reduce instead of Math.min(...spread), which overflows the stack on big parks
+    const minX = entries.reduce((min, e) => Math.min(min, e.x), Infinity);
+    const maxY = entries.reduce((max, e) => Math.max(max, e.y), -Infinity);
+    const pxPerUnit = CELL_WIDTH / tablePitch(entries);
+
+    const used = new Set<number>();
+    let nextIndex = entries.reduce((max, e) => Math.max(max, e.index ?? -1), -1) + 1;
+
+    const tables = entries.map(entry => {
+        let index = entry.index;
+        if (index === undefined || used.has(index)) {
+            if (index !== undefined) warnings.push(`Duplicitní index ${index}, přečíslováno na ${nextIndex}.`);
+            index = nextIndex++;
+        }
+        used.add(index);
+
+        return {
+            ...entry,
+            index,
+            x: Math.round((entry.x - minX) * pxPerUnit / CELL_WIDTH * 100) / 100,
+            y: Math.round((maxY - entry.y) * pxPerUnit / CELL_HEIGHT * 100) / 100
+        };
+    });
+
+    return { tables, counts: countByType(tables), warnings };
+};
@@ -0,0 +1,249 @@
+import { PowerConfig, Table, TableStatus } from '../types';
+import { calcSingleTableKwp } from './powerCalc';
+import { TABLE_HEIGHT, TABLE_WIDTH, tableCenter } from './mapGeometry';
+import { SpatialIndex } from './spatialIndex';
+import { fitViewport, levelOfDetail, renderMap, STATUS_COLORS } from './mapRenderer';
+import { TrackerCatalogue, trackerOf } from './trackerTypes';
+
+export type MapExportFormat = 'png' | 'svg' | 'pdf';
+
+export interface MapExportInfo {
+    projectName: string;
+    date: Date;
+    power: PowerConfig; // Module and string layout of the project, for the kWp figures
+    trackers: TrackerCatalogue;
+}
+
+export interface MapSummary {
+    counts: Record<TableStatus, number>;
+    kwpCompleted: number;
+    kwpTotal: number;
+}
+
+// A4 landscape at 300 DPI, independent of the on-screen viewport
+const PRINT_DPI = 300;
+const PAGE_WIDTH_MM = 297;
+const PAGE_HEIGHT_MM = 210;
+const PAGE_WIDTH = Math.round(PAGE_WIDTH_MM / 25.4 * PRINT_DPI);
+const PAGE_HEIGHT = Math.round(PAGE_HEIGHT_MM / 25.4 * PRINT_DPI);
+
+// Typographic points to page pixels
+const pt = (points: number) => points * PRINT_DPI / 72;
+
+const MARGIN = pt(28);
+const HEADER_HEIGHT = pt(64);
+
+const STATUS_LABELS: Record<TableStatus, string> = {
+    [TableStatus.Completed]: 'Hotovo',
+    [TableStatus.Pending]: 'Čeká',
+    [TableStatus.Issue]: 'Problém'
+};
+
+export const summarizeTables = (tables: Table[], catalogue: TrackerCatalogue, config: PowerConfig): MapSummary => {
+    const counts = { [TableStatus.Pending]: 0, [TableStatus.Completed]: 0, [TableStatus.Issue]: 0 };
+    let kwpCompleted = 0;
+    let kwpTotal = 0;
+    for (const table of tables) {
+        const kwp = calcSingleTableKwp(trackerOf(catalogue, table.type), config);
+        counts[table.status] = (counts[table.status] || 0) + 1;
+        kwpTotal += kwp;
+        if (table.status === TableStatus.Completed) kwpCompleted += kwp;
+    }
+    return { counts, kwpCompleted, kwpTotal };
+};
+
+// Map area below the header
+const MAP_AREA = {
+    x: MARGIN,
+    y: MARGIN + HEADER_HEIGHT,
+    width: PAGE_WIDTH - 2 * MARGIN,
+    height: PAGE_HEIGHT - 2 * MARGIN - HEADER_HEIGHT
+};
+
+const headerLines = (info: MapExportInfo, summary: MapSummary) => {
+    const percent = summary.kwpTotal > 0 ? Math.round(summary.kwpCompleted / summary.kwpTotal * 100) : 0;
+    return {
+        title: info.projectName,
+        subtitle: `${info.date.toLocaleDateString('cs-CZ')} • Hotovo ${summary.kwpCompleted.toFixed(1)} z ${summary.kwpTotal.toFixed(1)} kWp (${percent} %)`
+    };
+};
+
+const LEGEND_ORDER = [TableStatus.Completed, TableStatus.Pending, TableStatus.Issue];
+const LEGEND_ITEM_WIDTH = pt(110);
+
+// --- Raster (PNG, PDF) ---
+
+const renderCanvas = (tables: Table[], info: MapExportInfo): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_WIDTH;
+    canvas.height = PAGE_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    const index = new SpatialIndex(tables);
+    const summary = summarizeTables(tables, info.trackers, info.power);
+    const area = MAP_AREA;
+    // Pad by a table so rotated corners and shadows stay on the page
+    const viewport = fitViewport(index.bounds, area.width, area.height, TABLE_WIDTH);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+
+    // Map
+    ctx.save();
+    ctx.translate(area.x, area.y);
+    ctx.beginPath();
+    ctx.rect(0, 0, area.width, area.height);
+    ctx.clip();
+    renderMap(ctx, index, viewport, {
+        exportMode: true,
+        lod: levelOfDetail(viewport.scale) === 'aggregate' ? 'simple' : undefined,
+        labelFor: t => trackerOf(info.trackers, t.type).code
+    });
+    ctx.restore();
+    ctx.strokeStyle = '#cbd5e1';
+    ctx.lineWidth = pt(1);
+    ctx.strokeRect(area.x, area.y, area.width, area.height);
+
+    // Header
+    const { title, subtitle } = headerLines(info, summary);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#1e293b';
+    ctx.font = `bold ${pt(22)}px sans-serif`;
+    ctx.fillText(title, MARGIN, MARGIN);
+    ctx.fillStyle = '#64748b';
+    ctx.font = `${pt(12)}px sans-serif`;
+    ctx.fillText(subtitle, MARGIN, MARGIN + pt(30));
+
+    // Legend with counts, right-aligned in the header
+    ctx.font = `bold ${pt(11)}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    LEGEND_ORDER.forEach((status, i) => {
+        const x = PAGE_WIDTH - MARGIN - (LEGEND_ORDER.length - i) * LEGEND_ITEM_WIDTH;
+        const y = MARGIN + pt(10);
+        const colors = STATUS_COLORS[status];
+        ctx.fillStyle = colors.fill;
+        ctx.strokeStyle = colors.stroke;
+        ctx.lineWidth = pt(1.5);
+        ctx.fillRect(x, y - pt(6), pt(18), pt(12));
+        ctx.strokeRect(x, y - pt(6), pt(18), pt(12));
+        ctx.fillStyle = '#334155';
+        ctx.fillText(`${STATUS_LABELS[status]}: ${summary.counts[status]}`, x + pt(24), y);
+    });
+
+    return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+    new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), type, quality);
+    });
+
+/**
+ * Single-page PDF with the map embedded as a JPEG (DCTDecode needs no re-encoding).
+ */
+const buildPdf = (jpeg: ArrayBuffer, imageWidth: number, imageHeight: number): Blob => {
+    const encoder = new TextEncoder();
+    const pageWidth = PAGE_WIDTH_MM / 25.4 * 72;
+    const pageHeight = PAGE_HEIGHT_MM / 25.4 * 72;
+    const content = `q ${pageWidth.toFixed(2)} 0 0 ${pageHeight.toFixed(2)} 0 0 cm /Im0 Do Q`;
+
+    const parts: BlobPart[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (part: string | ArrayBuffer) => {
+        const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+        parts.push(bytes);
+        length += bytes.byteLength;
+    };
+    const object = (body: string) => {
+        offsets.push(length);
+        push(`${offsets.length} 0 obj\n${body}\nendobj\n`);
+    };
+
+    push('%PDF-1.4\n');
+    object('<< /Type /Catalog /Pages 2 0 R >>');
+    object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+    object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`);
+    offsets.push(length);
+    push(`4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.byteLength} >>\nstream\n`);
+    push(jpeg);
+    push('\nendstream\nendobj\n');
+    object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+    const xrefOffset = length;
+    push(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+    push(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`);
+
+    return new Blob(parts, { type: 'application/pdf' });
+};
+
+// --- Vector (SVG) ---
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderSvg = (tables: Table[], info: MapExportInfo): string => {
+    const index = new SpatialIndex(tables);
+    const summary = summarizeTables(tables, info.trackers, info.power);
+    const area = MAP_AREA;
+    const { scale, offset } = fitViewport(index.bounds, area.width, area.height, TABLE_WIDTH);
+    const { title, subtitle } = headerLines(info, summary);
+    const n = (value: number) => Math.round(value * 100) / 100;
+
+    const rects = tables.map(table => {
+        const center = tableCenter(table);
+        const colors = STATUS_COLORS[table.status] || STATUS_COLORS[TableStatus.Pending];
+        const rotate = table.rotation ? ` transform="rotate(${n(table.rotation)} ${n(center.x)} ${n(center.y)})"` : '';
+        return `<rect x="${n(center.x - TABLE_WIDTH / 2)}" y="${n(center.y - TABLE_HEIGHT / 2)}" width="${TABLE_WIDTH}" height="${TABLE_HEIGHT}" rx="4" fill="${colors.fill}" stroke="${colors.stroke}"${rotate}/>`;
+    });
+
+    const legend = LEGEND_ORDER.map((status, i) => {
+        const x = PAGE_WIDTH - MARGIN - (LEGEND_ORDER.length - i) * LEGEND_ITEM_WIDTH;
+        const y = MARGIN + pt(10);
+        const colors = STATUS_COLORS[status];
+        return `<rect x="${n(x)}" y="${n(y - pt(6))}" width="${n(pt(18))}" height="${n(pt(12))}" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="${n(pt(1.5))}"/>`
+            + `<text x="${n(x + pt(24))}" y="${n(y)}" dominant-baseline="middle" font-weight="bold" font-size="${n(pt(11))}" fill="#334155">${STATUS_LABELS[status]}: ${summary.counts[status]}</text>`;
+    });
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH_MM}mm" height="${PAGE_HEIGHT_MM}mm" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}" font-family="sans-serif">`,
+        `<rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#ffffff"/>`,
+        `<text x="${n(MARGIN)}" y="${n(MARGIN)}" dominant-baseline="hanging" font-weight="bold" font-size="${n(pt(22))}" fill="#1e293b">${escapeXml(title)}</text>`,
+        `<text x="${n(MARGIN)}" y="${n(MARGIN + pt(30))}" dominant-baseline="hanging" font-size="${n(pt(12))}" fill="#64748b">${escapeXml(subtitle)}</text>`,
+        ...legend,
+        `<svg x="${n(area.x)}" y="${n(area.y)}" width="${n(area.width)}" height="${n(area.height)}">`,
+        `<g transform="translate(${n(offset.x)} ${n(offset.y)}) scale(${scale})" stroke-width="1">`,
+        ...rects,
+        '</g></svg>',
+        `<rect x="${n(area.x)}" y="${n(area.y)}" width="${n(area.width)}" height="${n(area.height)}" fill="none" stroke="#cbd5e1" stroke-width="${n(pt(1))}"/>`,
+        '</svg>'
+    ].join('\n');
+};
+
+/**
+ * Renders the whole project extent as a print-ready page with header and legend.
+ */
+export const exportMap = async (format: MapExportFormat, tables: Table[], info: MapExportInfo): Promise<Blob> => {
+    if (format === 'svg') {
+        return new Blob([renderSvg(tables, info)], { type: 'image/svg+xml' });
+    }
+    const canvas = renderCanvas(tables, info);
+    if (format === 'png') {
+        return canvasToBlob(canvas, 'image/png');
+    }
+    const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+    return buildPdf(await jpeg.arrayBuffer(), canvas.width, canvas.height);
+};
+
+export const exportFileName = (info: Pick<MapExportInfo, 'projectName' | 'date'>, extension: string) => {
+    const slug = info.projectName
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-zA-Z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+        .toLowerCase();
+    return `${slug || 'projekt'}_${info.date.toISOString().slice(0, 10)}.${extension}`;
+};
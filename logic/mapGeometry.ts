@@ -0,0 +1,109 @@
+import { Table } from '../types';
+
+// Table footprint in CanvasMap world pixels (before zoom)
+export const TABLE_WIDTH = 45;
+export const TABLE_HEIGHT = 25;
+export const GAP = 15;
+
+// One grid unit of Table.x / Table.y in world pixels
+export const CELL_WIDTH = TABLE_WIDTH + GAP;
+export const CELL_HEIGHT = TABLE_HEIGHT + GAP;
+
+// Background grid drawn behind the tables; edit mode snaps to half of it
+export const GRID_SIZE = 50;
+export const SNAP_SIZE = GRID_SIZE / 2;
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Top-left corner of the (unrotated) table rectangle in world pixels.
+ */
+export const tableOrigin = (table: Table): Point => ({
+    x: table.x * CELL_WIDTH,
+    y: table.y * CELL_HEIGHT
+});
+
+export const tableCenter = (table: Table): Point => ({
+    x: table.x * CELL_WIDTH + TABLE_WIDTH / 2,
+    y: table.y * CELL_HEIGHT + TABLE_HEIGHT / 2
+});
+
+const rotatePoint = (p: Point, center: Point, radians: number): Point => {
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const dx = p.x - center.x;
+    const dy = p.y - center.y;
+    return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+/**
+ * Whether a world point lies on the table, honouring its rotation.
+ */
+export const hitTable = (table: Table, point: Point): boolean => {
+    const center = tableCenter(table);
+    const local = table.rotation ? rotatePoint(point, center, -table.rotation * Math.PI / 180) : point;
+    return Math.abs(local.x - center.x) <= TABLE_WIDTH / 2 && Math.abs(local.y - center.y) <= TABLE_HEIGHT / 2;
+};
+
+/**
+ * Shifts the given tables by a world pixel offset.
+ */
+export const moveTables = (tables: Table[], ids: Set<string>, dx: number, dy: number): Table[] => {
+    return tables.map(t => ids.has(t.id)
+        ? { ...t, x: t.x + dx / CELL_WIDTH, y: t.y + dy / CELL_HEIGHT }
+        : t);
+};
+
+/**
+ * Rotates the given tables as one rigid group around their common centre.
+ * Works in world pixels because a grid unit is not square.
+ */
+export const rotateTables = (tables: Table[], ids: Set<string>, degrees: number): Table[] => {
+    const group = tables.filter(t => ids.has(t.id));
+    if (group.length === 0) return tables;
+    const centers = group.map(tableCenter);
+    const pivot = {
+        x: centers.reduce((sum, c) => sum + c.x, 0) / centers.length,
+        y: centers.reduce((sum, c) => sum + c.y, 0) / centers.length
+    };
+    const radians = degrees * Math.PI / 180;
+
+    return tables.map(t => {
+        if (!ids.has(t.id)) return t;
+        const center = rotatePoint(tableCenter(t), pivot, radians);
+        const rotation = (((t.rotation || 0) + degrees) % 360 + 360) % 360;
+        return {
+            ...t,
+            x: (center.x - TABLE_WIDTH / 2) / CELL_WIDTH,
+            y: (center.y - TABLE_HEIGHT / 2) / CELL_HEIGHT,
+            rotation
+        };
+    });
+};
+
+export const snapToGrid = (value: number, size = SNAP_SIZE) => Math.round(value / size) * size;
+
+/**
+ * Ray casting test; the polygon is closed implicitly.
+ */
+export const pointInPolygon = (point: Point, polygon: Point[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+export const boxPolygon = (a: Point, b: Point): Point[] => [
+    { x: a.x, y: a.y },
+    { x: b.x, y: a.y },
+    { x: b.x, y: b.y },
+    { x: a.x, y: b.y }
+];
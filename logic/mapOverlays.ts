@@ -0,0 +1,232 @@
+import { IssueCategory, StageDefinition, Table, TableStatus } from '../types';
+import { STATUS_COLORS, TableColors } from './mapRenderer';
+import { isStageDone } from './stages';
+import { DEFAULT_CATALOGUE, TrackerCatalogue, trackerOf } from './trackerTypes';
+
+export type OverlayMode = 'status' | 'installer' | 'age' | 'type' | 'issue';
+
+export const OVERLAY_LABELS: Record<OverlayMode, string> = {
+    status: 'Stav',
+    installer: 'Montér',
+    age: 'Stáří',
+    type: 'Typ',
+    issue: 'Problémy'
+};
+
+export const ISSUE_CATEGORY_LABELS: Record<IssueCategory, string> = {
+    [IssueCategory.MissingPart]: 'Chybějící díl',
+    [IssueCategory.DamagedModule]: 'Poškozený panel',
+    [IssueCategory.PileHeight]: 'Výška piloty',
+    [IssueCategory.Other]: 'Jiné'
+};
+
+export interface LegendEntry {
+    label: string;
+    colors: TableColors;
+    count: number;
+}
+
+export interface MapOverlay {
+    mode: OverlayMode | 'stage';
+    colorFor: (table: Table) => TableColors;
+    legend: LegendEntry[];
+}
+
+// Tables the overlay says nothing about fade into the background
+const MUTED: TableColors = { fill: '#f8fafc', stroke: '#e2e8f0' };
+
+// Distinct pairs for categorical overlays; further installers and tracker types share "Ostatní"
+const PALETTE: TableColors[] = [
+    { fill: '#bfdbfe', stroke: '#2563eb' },
+    { fill: '#fed7aa', stroke: '#ea580c' },
+    { fill: '#ddd6fe', stroke: '#7c3aed' },
+    { fill: '#99f6e4', stroke: '#0d9488' },
+    { fill: '#fbcfe8', stroke: '#db2777' },
+    { fill: '#d9f99d', stroke: '#65a30d' },
+    { fill: '#fde68a', stroke: '#d97706' },
+    { fill: '#a5f3fc', stroke: '#0891b2' },
+    { fill: '#c7d2fe', stroke: '#4f46e5' }
+];
+const OTHER: TableColors = { fill: '#e5e7eb', stroke: '#6b7280' };
+
+const ISSUE_COLORS: Record<IssueCategory, TableColors> = {
+    [IssueCategory.MissingPart]: { fill: '#fed7aa', stroke: '#ea580c' },
+    [IssueCategory.DamagedModule]: { fill: '#fecaca', stroke: '#dc2626' },
+    [IssueCategory.PileHeight]: { fill: '#ddd6fe', stroke: '#7c3aed' },
+    [IssueCategory.Other]: { fill: '#fde68a', stroke: '#ca8a04' }
+};
+const UNCATEGORIZED: TableColors = { fill: '#fee2e2', stroke: '#ef4444' };
+
+// Stage overlay: tables whose previous stages are done are where the crew goes next
+const STAGE_READY: TableColors = { fill: '#fef3c7', stroke: '#d97706' };
+
+// Number of bands in the completion age legend
+const AGE_STEPS = 5;
+
+// Old completions are blue, fresh ones green
+const ageColors = (share: number): TableColors => {
+    const hue = Math.round(220 - share * 80);
+    return { fill: `hsl(${hue}, 70%, 85%)`, stroke: `hsl(${hue}, 70%, 38%)` };
+};
+
+const countBy = <K>(tables: Table[], key: (table: Table) => K | undefined) => {
+    const counts = new Map<K, number>();
+    for (const table of tables) {
+        const value = key(table);
+        if (value !== undefined) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    return counts;
+};
+
+const statusOverlay = (tables: Table[]): MapOverlay => {
+    const counts = countBy(tables, t => t.status);
+    return {
+        mode: 'status',
+        colorFor: t => STATUS_COLORS[t.status] || STATUS_COLORS[TableStatus.Pending],
+        legend: [
+            { label: 'Čeká', colors: STATUS_COLORS[TableStatus.Pending], count: counts.get(TableStatus.Pending) || 0 },
+            { label: 'Hotovo', colors: STATUS_COLORS[TableStatus.Completed], count: counts.get(TableStatus.Completed) || 0 },
+            { label: 'Problém', colors: STATUS_COLORS[TableStatus.Issue], count: counts.get(TableStatus.Issue) || 0 }
+        ]
+    };
+};
+
+const installerOverlay = (tables: Table[], memberNames: Record<string, string>): MapOverlay => {
+    const counts = countBy(tables, t => (t.status === TableStatus.Completed ? t.completedBy || '' : undefined));
+    // Busiest crews get their own colour
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    const colors = new Map<string, TableColors>();
+    ranked.slice(0, PALETTE.length).forEach(([id], i) => colors.set(id, PALETTE[i]));
+
+    const legend: LegendEntry[] = ranked.slice(0, PALETTE.length).map(([id, count]) => ({
+        label: memberNames[id] || (id ? 'Neznámý' : 'Nezadáno'),
+        colors: colors.get(id)!,
+        count
+    }));
+    const rest = ranked.slice(PALETTE.length).reduce((sum, [, count]) => sum + count, 0);
+    if (rest > 0) legend.push({ label: 'Ostatní', colors: OTHER, count: rest });
+
+    return {
+        mode: 'installer',
+        colorFor: t => (t.status === TableStatus.Completed ? colors.get(t.completedBy || '') || OTHER : MUTED),
+        legend
+    };
+};
+
+const ageOverlay = (tables: Table[]): MapOverlay => {
+    const stamps = tables
+        .filter(t => t.status === TableStatus.Completed && t.completedAt)
+        .map(t => t.completedAt!);
+    const oldest = stamps.reduce((min, v) => Math.min(min, v), Infinity);
+    const newest = stamps.reduce((max, v) => Math.max(max, v), -Infinity);
+    const span = newest - oldest;
+
+    const band = (completedAt: number) =>
+        span > 0 ? Math.min(AGE_STEPS - 1, Math.floor((completedAt - oldest) / span * AGE_STEPS)) : AGE_STEPS - 1;
+    const bandColors = Array.from({ length: AGE_STEPS }, (_, i) => ageColors(i / (AGE_STEPS - 1)));
+
+    const bandCounts = new Array(AGE_STEPS).fill(0);
+    stamps.forEach(stamp => bandCounts[band(stamp)]++);
+    const undated = tables.filter(t => t.status === TableStatus.Completed && !t.completedAt).length;
+
+    const legend: LegendEntry[] = bandCounts
+        .map((count, i) => ({
+            label: new Date(span > 0 ? oldest + span * i / AGE_STEPS : newest).toLocaleDateString('cs-CZ'),
+            colors: bandColors[i],
+            count
+        }))
+        .filter(entry => entry.count > 0);
+    if (undated > 0) legend.push({ label: 'Bez data', colors: OTHER, count: undated });
+
+    return {
+        mode: 'age',
+        colorFor: t => {
+            if (t.status !== TableStatus.Completed) return MUTED;
+            return t.completedAt ? ageColors(span > 0 ? (t.completedAt - oldest) / span : 1) : OTHER;
+        },
+        legend
+    };
+};
+
+const typeOverlay = (tables: Table[], catalogue: TrackerCatalogue): MapOverlay => {
+    const counts = countBy(tables, t => t.type);
+    // Colours follow the catalogue order, so a type keeps its colour across projects
+    const colors = new Map<string, TableColors>();
+    Array.from(catalogue.keys()).slice(0, PALETTE.length).forEach((id, i) => colors.set(id, PALETTE[i]));
+
+    const legend: LegendEntry[] = Array.from(counts.entries())
+        .filter(([id]) => colors.has(id))
+        .sort((a, b) => Array.from(colors.keys()).indexOf(a[0]) - Array.from(colors.keys()).indexOf(b[0]))
+        .map(([id, count]) => ({ label: trackerOf(catalogue, id).name, colors: colors.get(id)!, count }));
+    const rest = Array.from(counts.entries()).filter(([id]) => !colors.has(id)).reduce((sum, [, count]) => sum + count, 0);
+    if (rest > 0) legend.push({ label: 'Ostatní', colors: OTHER, count: rest });
+
+    return {
+        mode: 'type',
+        colorFor: t => colors.get(t.type) || OTHER,
+        legend
+    };
+};
+
+const issueOverlay = (tables: Table[]): MapOverlay => {
+    const counts = countBy(tables, t => (t.status === TableStatus.Issue ? t.issueCategory || '' : undefined));
+    const legend: LegendEntry[] = (Object.keys(ISSUE_CATEGORY_LABELS) as IssueCategory[])
+        .filter(category => counts.has(category))
+        .map(category => ({ label: ISSUE_CATEGORY_LABELS[category], colors: ISSUE_COLORS[category], count: counts.get(category)! }));
+    if (counts.has('')) legend.push({ label: 'Nezařazeno', colors: UNCATEGORIZED, count: counts.get('')! });
+
+    return {
+        mode: 'issue',
+        colorFor: t => {
+            if (t.status !== TableStatus.Issue) return MUTED;
+            return (t.issueCategory && ISSUE_COLORS[t.issueCategory]) || UNCATEGORIZED;
+        },
+        legend
+    };
+};
+
+/**
+ * Progress of one installation stage: done, ready (all earlier stages done) and not started.
+ */
+export const buildStageOverlay = (tables: Table[], stage: StageDefinition, stages: StageDefinition[]): MapOverlay => {
+    const earlier = stages.slice(0, Math.max(0, stages.findIndex(s => s.id === stage.id)));
+    const state = (t: Table) => {
+        if (isStageDone(t, stage.id)) return 'done';
+        return earlier.every(s => isStageDone(t, s.id)) ? 'ready' : 'waiting';
+    };
+    const counts = countBy(tables, state);
+    const legend: LegendEntry[] = [
+        { label: 'Hotovo', colors: STATUS_COLORS[TableStatus.Completed], count: counts.get('done') || 0 },
+        { label: 'Připraveno', colors: STAGE_READY, count: counts.get('ready') || 0 },
+        { label: 'Čeká na předchozí etapy', colors: MUTED, count: counts.get('waiting') || 0 }
+    ];
+
+    return {
+        mode: 'stage',
+        colorFor: t => {
+            if (t.status === TableStatus.Issue) return STATUS_COLORS[TableStatus.Issue];
+            const value = state(t);
+            if (value === 'done') return STATUS_COLORS[TableStatus.Completed];
+            return value === 'ready' ? STAGE_READY : MUTED;
+        },
+        legend: legend.filter(entry => entry.count > 0)
+    };
+};
+
+/**
+ * Colouring and legend for the chosen overlay; legends only list values present on the map.
+ */
+export const buildOverlay = (
+    mode: OverlayMode,
+    tables: Table[],
+    memberNames: Record<string, string> = {},
+    catalogue: TrackerCatalogue = DEFAULT_CATALOGUE
+): MapOverlay => {
+    switch (mode) {
+        case 'installer': return installerOverlay(tables, memberNames);
+        case 'age': return ageOverlay(tables);
+        case 'type': return typeOverlay(tables, catalogue);
+        case 'issue': return issueOverlay(tables);
+        default: return statusOverlay(tables);
+    }
+};
@@ -0,0 +1,237 @@
+import { Table, TableStatus } from '../types';
+import { GRID_SIZE, Point, TABLE_HEIGHT, TABLE_WIDTH, tableCenter } from './mapGeometry';
+import { Rect, SpatialIndex } from './spatialIndex';
+
+// Below these zoom levels tables lose their decorations, then collapse into bucket summaries
+export const SIMPLE_LOD_SCALE = 0.6;
+export const AGGREGATE_LOD_SCALE = 0.3;
+
+export type LevelOfDetail = 'detail' | 'simple' | 'aggregate';
+
+export interface MapViewport {
+    scale: number;
+    offset: Point;
+    width: number; // Canvas pixels
+    height: number;
+}
+
+export interface RenderOptions {
+    exportMode?: boolean; // Solid background for image export
+    gridColor?: string;
+    isHighlighted?: (table: Table) => boolean;
+    lod?: LevelOfDetail; // Overrides the zoom-based choice, e.g. print should never aggregate
+    colorFor?: (table: Table) => TableColors; // Analytical overlay instead of status colours
+    labelFor?: (table: Table) => string; // Tracker type code; defaults to the raw type ID
+}
+
+export interface RenderStats {
+    lod: LevelOfDetail;
+    drawn: number; // Tables or aggregates actually painted
+}
+
+export const levelOfDetail = (scale: number): LevelOfDetail => {
+    if (scale < AGGREGATE_LOD_SCALE) return 'aggregate';
+    if (scale < SIMPLE_LOD_SCALE) return 'simple';
+    return 'detail';
+};
+
+/**
+ * Part of the world visible through the viewport.
+ */
+export const visibleWorldRect = ({ scale, offset, width, height }: MapViewport): Rect => ({
+    minX: -offset.x / scale,
+    minY: -offset.y / scale,
+    maxX: (width - offset.x) / scale,
+    maxY: (height - offset.y) / scale
+});
+
+/**
+ * Viewport that centres the given world extent in a width x height area.
+ * `padding` is kept free around the extent, in world pixels.
+ */
+export const fitViewport = (bounds: Rect | null, width: number, height: number, padding = 0): MapViewport => {
+    if (!bounds) return { scale: 1, offset: { x: 0, y: 0 }, width, height };
+    const worldWidth = bounds.maxX - bounds.minX;
+    const worldHeight = bounds.maxY - bounds.minY;
+    const scale = Math.min(width / (worldWidth + 2 * padding), height / (worldHeight + 2 * padding));
+    return {
+        scale,
+        offset: {
+            x: (width - worldWidth * scale) / 2 - bounds.minX * scale,
+            y: (height - worldHeight * scale) / 2 - bounds.minY * scale
+        },
+        width,
+        height
+    };
+};
+
+export interface TableColors {
+    fill: string;
+    stroke: string;
+    shadow?: string;
+}
+
+export const STATUS_COLORS: Record<TableStatus, TableColors> = {
+    [TableStatus.Pending]: { fill: '#ffffff', stroke: '#94a3b8', shadow: 'rgba(0,0,0,0.05)' },
+    [TableStatus.Completed]: { fill: '#dcfce7', stroke: '#22c55e', shadow: 'rgba(34, 197, 94, 0.2)' },
+    [TableStatus.Issue]: { fill: '#fee2e2', stroke: '#ef4444', shadow: 'rgba(239, 68, 68, 0.2)' }
+};
+
+const drawCheckmark = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
+    ctx.beginPath();
+    ctx.moveTo(x + size * 0.2, y + size * 0.5);
+    ctx.lineTo(x + size * 0.45, y + size * 0.8);
+    ctx.lineTo(x + size * 0.8, y + size * 0.2);
+    ctx.strokeStyle = '#15803d';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+};
+
+const drawExclamation = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
+    ctx.fillStyle = '#b91c1c';
+    ctx.beginPath();
+    ctx.arc(x + size / 2, y + size * 0.8, size * 0.1, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.roundRect(x + size * 0.4, y + size * 0.15, size * 0.2, size * 0.5, 2);
+    ctx.fill();
+};
+
+const drawTable = (ctx: CanvasRenderingContext2D, table: Table, label: string, colors: TableColors, lod: LevelOfDetail, isHighlighted: boolean) => {
+    // Draw around the table centre so rotated tables share one code path
+    const center = tableCenter(table);
+    const drawX = -TABLE_WIDTH / 2;
+    const drawY = -TABLE_HEIGHT / 2;
+    const strokeColor = isHighlighted ? '#2563eb' : colors.stroke;
+
+    ctx.save();
+    ctx.translate(center.x, center.y);
+    if (table.rotation) ctx.rotate(table.rotation * Math.PI / 180);
+
+    if (lod === 'simple') {
+        ctx.fillStyle = colors.fill;
+        ctx.strokeStyle = strokeColor;
+        ctx.lineWidth = isHighlighted ? 3 : 1;
+        ctx.fillRect(drawX, drawY, TABLE_WIDTH, TABLE_HEIGHT);
+        ctx.strokeRect(drawX, drawY, TABLE_WIDTH, TABLE_HEIGHT);
+        ctx.restore();
+        return;
+    }
+
+    // Shadow
+    ctx.fillStyle = isHighlighted ? 'rgba(37, 99, 235, 0.3)' : colors.shadow || 'rgba(0,0,0,0.05)';
+    ctx.fillRect(drawX + 3, drawY + 3, TABLE_WIDTH, TABLE_HEIGHT);
+
+    // Main Rect
+    ctx.fillStyle = colors.fill;
+    ctx.strokeStyle = strokeColor;
+    ctx.lineWidth = isHighlighted ? 3 : table.status === TableStatus.Pending ? 1 : 2;
+
+    ctx.beginPath();
+    if (ctx.roundRect) {
+        ctx.roundRect(drawX, drawY, TABLE_WIDTH, TABLE_HEIGHT, 4);
+    } else {
+        ctx.rect(drawX, drawY, TABLE_WIDTH, TABLE_HEIGHT);
+    }
+    ctx.fill();
+    ctx.stroke();
+
+    // Label
+    ctx.fillStyle = '#64748b';
+    ctx.font = 'bold 10px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(label, drawX + 4, drawY + 4);
+
+    // Icon
+    if (table.status === TableStatus.Completed) {
+        drawCheckmark(ctx, drawX + TABLE_WIDTH - 16, drawY + TABLE_HEIGHT - 16, 14);
+    } else if (table.status === TableStatus.Issue) {
+        drawExclamation(ctx, drawX + TABLE_WIDTH - 16, drawY + TABLE_HEIGHT - 16, 14);
+    } else {
+        ctx.strokeStyle = '#cbd5e1';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(drawX + TABLE_WIDTH - 8, drawY + TABLE_HEIGHT - 8, 3, 0, Math.PI * 2);
+        ctx.stroke();
+    }
+
+    ctx.restore();
+};
+
+/**
+ * Paints the background grid and the tables inside the viewport. Only tables the
+ * spatial index reports as visible are touched; far zoom paints one progress
+ * block per index bucket instead. Leaves the context untransformed.
+ */
+export const renderMap = (
+    ctx: CanvasRenderingContext2D,
+    index: SpatialIndex,
+    viewport: MapViewport,
+    options: RenderOptions = {}
+): RenderStats => {
+    const { scale, offset, width, height } = viewport;
+
+    // Clear canvas
+    ctx.clearRect(0, 0, width, height);
+
+    // For export, allow solid background
+    if (options.exportMode) {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    // Draw grid (skipped when the lines would be too dense to read)
+    const gridSize = GRID_SIZE * scale;
+    if (gridSize >= 8) {
+        ctx.strokeStyle = options.exportMode ? '#e2e8f0' : options.gridColor || 'rgba(0,0,0,0.05)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let x = (offset.x % gridSize); x < width; x += gridSize) {
+            ctx.moveTo(x, 0);
+            ctx.lineTo(x, height);
+        }
+        for (let y = (offset.y % gridSize); y < height; y += gridSize) {
+            ctx.moveTo(0, y);
+            ctx.lineTo(width, y);
+        }
+        ctx.stroke();
+    }
+
+    ctx.save();
+    ctx.translate(offset.x, offset.y);
+    ctx.scale(scale, scale);
+
+    const lod = options.lod || levelOfDetail(scale);
+    const visible = visibleWorldRect(viewport);
+    let drawn = 0;
+
+    if (lod === 'aggregate') {
+        for (const agg of index.aggregates(visible)) {
+            const { minX, minY, maxX, maxY } = agg.bounds;
+            const w = maxX - minX;
+            const h = maxY - minY;
+            // Background for the bucket, green share for completed tables
+            ctx.fillStyle = '#e2e8f0';
+            ctx.fillRect(minX, minY, w, h);
+            if (agg.completed > 0) {
+                ctx.fillStyle = '#4ade80';
+                ctx.fillRect(minX, minY, w * agg.completed / agg.total, h);
+            }
+            ctx.strokeStyle = agg.issues > 0 ? '#ef4444' : '#94a3b8';
+            ctx.lineWidth = (agg.issues > 0 ? 3 : 1) / scale;
+            ctx.strokeRect(minX, minY, w, h);
+            drawn++;
+        }
+    } else {
+        const { isHighlighted, colorFor, labelFor } = options;
+        for (const table of index.query(visible)) {
+            const colors = colorFor ? colorFor(table) : STATUS_COLORS[table.status] || STATUS_COLORS[TableStatus.Pending];
+            drawTable(ctx, table, labelFor ? labelFor(table) : table.type, colors, lod, !!isHighlighted && isHighlighted(table));
+            drawn++;
+        }
+    }
+
+    ctx.restore();
+    return { lod, drawn };
+};
@@ -0,0 +1,148 @@
+import { SyncPayload } from '../types';
+import { legacyTableCounts, toLegacyTableCounts } from './trackerTypes';
+
+/**
+ * Schema history of sync batches, backup files and peer packets:
+ *  1 - bare payload (backups: collections plus `version: 1` at the top level)
+ *  2 - envelope; records carry `updatedAt`, logs carry `syncId`, deletions travel as tombstones
+ *  3 - tracker type catalogue; project `tableCounts` keyed by tracker type ID instead of small/medium/large
+ *
+ * New collections (tableHistory, issues, inverters, combinerBoxes) are not a version change:
+ * they are optional, and apps that do not know them skip them along with their tombstones.
+ * Bump the version only when records that older apps do read change shape or meaning.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export type EnvelopeKind = 'sync' | 'backup' | 'packet';
+
+export interface PayloadEnvelope {
+  format: 'mst';
+  kind: EnvelopeKind;
+  version: number;
+  createdAt: number;
+  payload: RawPayload; // Shape of `version`; SyncPayload once migrated to current
+}
+
+// Payloads of any schema version; migrations only touch the keys they know
+export type RawPayload = Record<string, unknown>;
+type RawRecord = Record<string, unknown>;
+
+const recordsOf = (value: unknown): RawRecord[] | null => Array.isArray(value) ? value as RawRecord[] : null;
+
+export interface Migration {
+  from: number;
+  to: number; // Always from + 1
+  up: (payload: RawPayload, createdAt: number) => RawPayload;
+  down: (payload: RawPayload) => RawPayload;
+}
+
+/**
+ * The payload comes from a version this app cannot read (usually a newer app).
+ */
+export class PayloadVersionError extends Error {}
+
+const RECORD_COLLECTIONS = ['projects', 'tables', 'team', 'attendance', 'tools', 'chat', 'dailyReports'];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    up: (payload, createdAt) => {
+      const result = { ...payload };
+      for (const key of RECORD_COLLECTIONS) {
+        const records = recordsOf(result[key]);
+        if (records) result[key] = records.map(r => ({ ...r, updatedAt: r.updatedAt ?? createdAt }));
+      }
+      const logs = recordsOf(result.logs);
+      if (logs) {
+        // Deterministic ID so the same legacy log imported twice is not duplicated
+        result.logs = logs.map(l => ({ ...l, syncId: l.syncId ?? `v1_${l.timestamp}_${l.action}_${l.user}` }));
+      }
+      result.deleted = result.deleted ?? [];
+      return result;
+    },
+    down: payload => {
+      const { deleted, chat, dailyReports, logs, tableHistory, issues, inverters, combinerBoxes, since, cursor, peer, ...rest } = payload;
+      const result: RawPayload = { ...rest };
+      for (const key of RECORD_COLLECTIONS) {
+        const records = recordsOf(result[key]);
+        if (records) result[key] = records.map(({ updatedAt, ...r }) => r);
+      }
+      return result;
+    }
+  },
+  {
+    from: 2,
+    to: 3,
+    up: payload => {
+      const result = { ...payload };
+      const projects = recordsOf(result.projects);
+      if (projects) {
+        result.projects = projects.map(p => ({ ...p, tableCounts: legacyTableCounts(p.tableCounts) }));
+      }
+      return result;
+    },
+    down: payload => {
+      const { trackerTypes, ...result } = payload;
+      const projects = recordsOf(result.projects);
+      if (projects) {
+        result.projects = projects.map(p => ({ ...p, tableCounts: toLegacyTableCounts(legacyTableCounts(p.tableCounts)) }));
+      }
+      const deleted = recordsOf(result.deleted);
+      if (deleted) result.deleted = deleted.filter(t => t.entity !== 'trackerTypes');
+      return result;
+    }
+  }
+];
+
+/**
+ * Walks the migration registry from one schema version to another, in either direction.
+ */
+export const migratePayload = (payload: RawPayload, from: number, to: number, createdAt = Date.now()): RawPayload => {
+  let version = from;
+  let result = payload;
+  while (version !== to) {
+    const step = version < to
+      ? MIGRATIONS.find(m => m.from === version)
+      : MIGRATIONS.find(m => m.to === version);
+    if (!step) throw new PayloadVersionError(`Chybí migrace dat z verze ${version}.`);
+    result = version < to ? step.up(result, createdAt) : step.down(result);
+    version = version < to ? step.to : step.from;
+  }
+  return result;
+};
+
+export const wrapPayload = (kind: EnvelopeKind, payload: SyncPayload, version = CURRENT_SCHEMA_VERSION): PayloadEnvelope => {
+  return {
+    format: 'mst',
+    kind,
+    version,
+    createdAt: Date.now(),
+    payload: migratePayload({ ...payload }, CURRENT_SCHEMA_VERSION, version)
+  };
+};
+
+/**
+ * Reads an envelope (or a legacy bare payload) and upgrades it to the current schema.
+ * Refuses payloads written by a newer schema rather than guessing at their shape.
+ */
+export const unwrapPayload = (raw: unknown): { kind: EnvelopeKind | null; createdAt: number; payload: SyncPayload } => {
+  if (!raw || typeof raw !== 'object') throw new PayloadVersionError('Neplatný formát dat.');
+
+  if ((raw as Partial<PayloadEnvelope>).format !== 'mst') {
+    // Version 1: bare payload, backups carry exportedAt next to the collections
+    const { version, exportedAt, ...payload } = raw as RawPayload;
+    const createdAt = typeof exportedAt === 'number' ? exportedAt : 0;
+    return { kind: null, createdAt, payload: migratePayload(payload, 1, CURRENT_SCHEMA_VERSION, createdAt) as SyncPayload };
+  }
+
+  const envelope = raw as PayloadEnvelope;
+  if (envelope.version > CURRENT_SCHEMA_VERSION) {
+    throw new PayloadVersionError(`Data jsou z novější verze aplikace (schéma ${envelope.version}). Aktualizujte aplikaci.`);
+  }
+  return {
+    kind: envelope.kind,
+    createdAt: envelope.createdAt,
+    payload: migratePayload(envelope.payload, envelope.version, CURRENT_SCHEMA_VERSION, envelope.createdAt) as SyncPayload
+  };
+};
@@ -1,58 +1,107 @@
-import { TableType } from '../types';
+import { ModuleSpec, PowerConfig, Project, StageDefinition, Table, TrackerType } from '../types';
+import { isStageDone } from './stages';
+import { TrackerCatalogue, trackerOf } from './trackerTypes';
 
 // DOMAIN RULES
-export const PANEL_POWER_W = 700;
-export const PANELS_PER_STRING = 28;
+// Modules used on our sites; datasheet values at STC
+export const MODULE_PRESETS: ModuleSpec[] = [
+    { name: '550 Wp PERC', powerW: 550, vocV: 49.9, iscA: 14.0, widthMm: 1134, lengthMm: 2279 },
+    { name: '600 Wp TOPCon', powerW: 600, vocV: 42.4, iscA: 18.2, widthMm: 1303, lengthMm: 2172 },
+    { name: '700 Wp TOPCon', powerW: 700, vocV: 48.5, iscA: 18.6, widthMm: 1303, lengthMm: 2384 }
+];
 
-// Derived Constants
-// 1 String = 28 * 700W = 19600W = 19.6 kW
-export const STRING_POWER_KW = (PANEL_POWER_W * PANELS_PER_STRING) / 1000;
-
-export const STRINGS_PER_TABLE: Record<TableType, number> = {
-    [TableType.Small]: 1,
-    [TableType.Medium]: 1.5,
-    [TableType.Large]: 2
+// Projects created before module specs were stored: 700 Wp, 28 modules per string
+export const DEFAULT_POWER_CONFIG: PowerConfig = {
+    module: MODULE_PRESETS[2],
+    panelsPerString: 28
 };
 
+// System voltage limit of the inverters and cabling
+export const MAX_SYSTEM_VOLTAGE_V = 1500;
+
+export interface StageStats {
+    id: string;
+    name: string;
+    done: number; // Tables that finished the stage
+    total: number;
+    percent: number; // 0-100, rounded
+    kwp: number; // Capacity of the tables that finished the stage
+}
+
 export interface PowerStats {
     strings: number;
     panels: number;
     kwp: number;
     mw: number;
+    stages?: StageStats[]; // Only when calcProjectStats gets the tables and pipeline
 }
 
+export const projectPowerConfig = (project?: Pick<Project, 'power'>): PowerConfig =>
+    project?.power || DEFAULT_POWER_CONFIG;
+
 /**
- * Calculates power stats for a specific table type.
+ * Open-circuit voltage of one string at STC; compare with MAX_SYSTEM_VOLTAGE_V.
  */
-export const calcTableStats = (type: TableType): PowerStats => {
-    // Default to Small if type is undefined or invalid to avoid crashes, though type should be strict
-    const strings = STRINGS_PER_TABLE[type] || 1;
-    const panels = strings * PANELS_PER_STRING;
-    const kwp = (panels * PANEL_POWER_W) / 1000;
+export const calcStringVoc = (config: PowerConfig): number => config.module.vocV * config.panelsPerString;
+
+/**
+ * Calculates power stats for one tracker of the given type.
+ */
+export const calcTableStats = (type: TrackerType, config: PowerConfig): PowerStats => {
+    const strings = type.strings;
+    const panels = type.modules ?? strings * config.panelsPerString;
+    const kwp = (panels * config.module.powerW) / 1000;
     const mw = kwp / 1000;
     return { strings, panels, kwp, mw };
 };
 
 /**
- * Calculates aggregate stats for a project based on its table counts.
+ * Progress of each installation stage over the given tables.
+ */
+export const calcStageProgress = (tables: Table[], stages: StageDefinition[], catalogue: TrackerCatalogue, config: PowerConfig): StageStats[] => {
+    return stages.map(stage => {
+        let done = 0;
+        let kwp = 0;
+        for (const table of tables) {
+            if (!isStageDone(table, stage.id)) continue;
+            done++;
+            kwp += calcSingleTableKwp(trackerOf(catalogue, table.type), config);
+        }
+        const total = tables.length;
+        return { id: stage.id, name: stage.name, done, total, percent: total > 0 ? Math.round(done / total * 100) : 0, kwp };
+    });
+};
+
+/**
+ * Calculates aggregate stats for a project based on its table counts per tracker type.
+ * Pass the project's tables and pipeline to get per-stage progress as well.
  */
-export const calcProjectStats = (counts: { small: number; medium: number; large: number }): PowerStats => {
+export const calcProjectStats = (
+    counts: Record<string, number>,
+    catalogue: TrackerCatalogue,
+    config: PowerConfig,
+    progress?: { tables: Table[]; stages: StageDefinition[] }
+): PowerStats => {
     let totalStrings = 0;
+    let panels = 0;
     
-    totalStrings += (counts.small || 0) * STRINGS_PER_TABLE[TableType.Small];
-    totalStrings += (counts.medium || 0) * STRINGS_PER_TABLE[TableType.Medium];
-    totalStrings += (counts.large || 0) * STRINGS_PER_TABLE[TableType.Large];
+    Object.entries(counts).forEach(([typeId, count]) => {
+        const table = calcTableStats(trackerOf(catalogue, typeId), config);
+        totalStrings += (count || 0) * table.strings;
+        panels += (count || 0) * table.panels;
+    });
     
-    const panels = totalStrings * PANELS_PER_STRING;
-    const kwp = (panels * PANEL_POWER_W) / 1000;
+    const kwp = (panels * config.module.powerW) / 1000;
     const mw = kwp / 1000;
     
-    return { strings: totalStrings, panels, kwp, mw };
+    const stats: PowerStats = { strings: totalStrings, panels, kwp, mw };
+    if (progress) stats.stages = calcStageProgress(progress.tables, progress.stages, catalogue, config);
+    return stats;
 };
 
 /**
  * Helper to get just the kWp for a single table instance.
  */
-export const calcSingleTableKwp = (type: TableType): number => {
-    return calcTableStats(type).kwp;
-};
\ No newline at end of file
+export const calcSingleTableKwp = (type: TrackerType, config: PowerConfig): number => {
+    return calcTableStats(type, config).kwp;
+};
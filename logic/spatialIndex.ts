@@ -0,0 +1,135 @@
+import { Table, TableStatus } from '../types';
+import { Point, TABLE_HEIGHT, TABLE_WIDTH, hitTable, tableCenter } from './mapGeometry';
+
+export interface Rect {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+// Summary of one bucket, drawn instead of single tables at far zoom
+export interface BucketAggregate {
+    bounds: Rect;
+    total: number;
+    completed: number;
+    issues: number;
+}
+
+// World pixels per bucket: a few tables across, so a phone viewport touches a handful of buckets
+export const DEFAULT_BUCKET_SIZE = 240;
+
+// Any point of a (rotated) table lies within this distance of its centre
+const TABLE_RADIUS = Math.hypot(TABLE_WIDTH, TABLE_HEIGHT) / 2;
+
+interface Bucket {
+    tables: Table[];
+    aggregate: BucketAggregate;
+}
+
+/**
+ * Uniform grid over table centres. Each table lives in exactly one bucket, and
+ * queries widen the rectangle by the table radius, so results need no dedupe.
+ */
+export class SpatialIndex {
+    readonly bucketSize: number;
+    readonly size: number;
+    readonly bounds: Rect | null; // Extent of all table footprints
+    private buckets = new Map<number, Bucket>();
+
+    constructor(tables: Table[], bucketSize = DEFAULT_BUCKET_SIZE) {
+        this.bucketSize = bucketSize;
+        this.size = tables.length;
+
+        let bounds: Rect | null = null;
+        for (const table of tables) {
+            const center = tableCenter(table);
+            const key = this.key(this.cell(center.x), this.cell(center.y));
+            let bucket = this.buckets.get(key);
+            if (!bucket) {
+                bucket = {
+                    tables: [],
+                    aggregate: { bounds: { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }, total: 0, completed: 0, issues: 0 }
+                };
+                this.buckets.set(key, bucket);
+            }
+            bucket.tables.push(table);
+
+            const agg = bucket.aggregate;
+            agg.total++;
+            if (table.status === TableStatus.Completed) agg.completed++;
+            if (table.status === TableStatus.Issue) agg.issues++;
+            const b = agg.bounds;
+            b.minX = Math.min(b.minX, center.x - TABLE_WIDTH / 2);
+            b.minY = Math.min(b.minY, center.y - TABLE_HEIGHT / 2);
+            b.maxX = Math.max(b.maxX, center.x + TABLE_WIDTH / 2);
+            b.maxY = Math.max(b.maxY, center.y + TABLE_HEIGHT / 2);
+        }
+
+        this.buckets.forEach(({ aggregate: { bounds: b } }) => {
+            bounds = bounds
+                ? { minX: Math.min(bounds.minX, b.minX), minY: Math.min(bounds.minY, b.minY), maxX: Math.max(bounds.maxX, b.maxX), maxY: Math.max(bounds.maxY, b.maxY) }
+                : { ...b };
+        });
+        this.bounds = bounds;
+    }
+
+    private cell(value: number) {
+        return Math.floor(value / this.bucketSize);
+    }
+
+    // Numeric keys are much cheaper than strings; assumes fewer than a million buckets per axis
+    private key(bx: number, by: number) {
+        return bx * 1_000_003 + by;
+    }
+
+    private forEachBucket(rect: Rect, pad: number, fn: (bucket: Bucket) => void) {
+        const x0 = this.cell(rect.minX - pad);
+        const x1 = this.cell(rect.maxX + pad);
+        const y0 = this.cell(rect.minY - pad);
+        const y1 = this.cell(rect.maxY + pad);
+        // A huge viewport over a sparse grid: walking the map beats walking empty cells
+        if ((x1 - x0 + 1) * (y1 - y0 + 1) > this.buckets.size) {
+            this.buckets.forEach((bucket, key) => {
+                const bx = Math.round(key / 1_000_003);
+                const by = key - bx * 1_000_003;
+                if (bx >= x0 && bx <= x1 && by >= y0 && by <= y1) fn(bucket);
+            });
+            return;
+        }
+        for (let bx = x0; bx <= x1; bx++) {
+            for (let by = y0; by <= y1; by++) {
+                const bucket = this.buckets.get(this.key(bx, by));
+                if (bucket) fn(bucket);
+            }
+        }
+    }
+
+    /**
+     * Tables whose footprint may overlap the rectangle (bucket precision).
+     */
+    query(rect: Rect): Table[] {
+        const result: Table[] = [];
+        this.forEachBucket(rect, TABLE_RADIUS, bucket => {
+            for (const table of bucket.tables) result.push(table);
+        });
+        return result;
+    }
+
+    /**
+     * Topmost table under a world point.
+     */
+    hitTest(point: Point): Table | undefined {
+        const candidates = this.query({ minX: point.x, minY: point.y, maxX: point.x, maxY: point.y });
+        for (let i = candidates.length - 1; i >= 0; i--) {
+            if (hitTable(candidates[i], point)) return candidates[i];
+        }
+        return undefined;
+    }
+
+    aggregates(rect: Rect): BucketAggregate[] {
+        const result: BucketAggregate[] = [];
+        this.forEachBucket(rect, TABLE_RADIUS, bucket => result.push(bucket.aggregate));
+        return result;
+    }
+}
@@ -0,0 +1,77 @@
+import { Project, StageDefinition, StageProgress, Table, TableStatus } from '../types';
+
+// Pipeline of a single-axis tracker; projects created before stages existed use it as well
+export const DEFAULT_STAGES: StageDefinition[] = [
+    { id: 'piling', name: 'Beranění' },
+    { id: 'torque', name: 'Trubka a motor' },
+    { id: 'modules', name: 'Panely' },
+    { id: 'dc', name: 'DC kabeláž' },
+    { id: 'qc', name: 'Kontrola' }
+];
+
+export const projectStages = (project?: Pick<Project, 'stages'>): StageDefinition[] =>
+    project?.stages && project.stages.length > 0 ? project.stages : DEFAULT_STAGES;
+
+// Tables completed before stages were tracked count as having every stage done
+export const isStageDone = (table: Table, stageId: string) =>
+    table.status === TableStatus.Completed || !!table.stages?.[stageId];
+
+/**
+ * Stage records after the whole table is set to `status`: completing it
+ * finishes the remaining stages, resetting it to pending starts it over,
+ * an issue keeps whatever was already built.
+ */
+export const stagesForStatus = (
+    table: Table,
+    status: TableStatus,
+    stages: StageDefinition[],
+    by: string,
+    at: number
+): Table['stages'] => {
+    if (status === TableStatus.Pending) return undefined;
+    if (status === TableStatus.Issue) return table.stages;
+    const result: Record<string, StageProgress> = { ...table.stages };
+    stages.forEach(stage => {
+        if (!result[stage.id]) result[stage.id] = { by, at };
+    });
+    return result;
+};
+
+/**
+ * Toggles one stage and derives the table status: the last stage completes
+ * the table, undoing a stage of a completed table reopens it. Issues stay issues.
+ */
+export const toggleStage = (table: Table, stageId: string, stages: StageDefinition[], by: string, at: number): Partial<Table> => {
+    const current = table.status === TableStatus.Completed
+        ? stagesForStatus(table, TableStatus.Completed, stages, table.completedBy || by, table.completedAt || at)
+        : table.stages;
+    const next: Record<string, StageProgress> = { ...current };
+    if (next[stageId]) delete next[stageId];
+    else next[stageId] = { by, at };
+
+    const changes: Partial<Table> = { stages: Object.keys(next).length > 0 ? next : undefined };
+    const done = stages.every(stage => !!next[stage.id]);
+    if (table.status === TableStatus.Pending && done) {
+        changes.status = TableStatus.Completed;
+        changes.completedBy = by;
+        changes.completedAt = at;
+    } else if (table.status === TableStatus.Completed && !done) {
+        changes.status = TableStatus.Pending;
+        changes.completedBy = undefined;
+        changes.completedAt = undefined;
+    }
+    return changes;
+};
+
+/**
+ * Union of two stage maps edited on different devices; the earlier record of a stage wins.
+ */
+export const mergeStages = (a: Table['stages'], b: Table['stages']): Table['stages'] => {
+    if (!a) return b;
+    if (!b) return a;
+    const result: Record<string, StageProgress> = { ...a };
+    Object.entries(b).forEach(([id, progress]) => {
+        if (!result[id] || progress.at < result[id].at) result[id] = progress;
+    });
+    return result;
+};
@@ -0,0 +1,141 @@
+import { SyncEntity, SyncRecord, Table, TableStatus, Tombstone } from '../types';
+import { mergeStages } from './stages';
+
+// Per-device bookkeeping; never a data change and never taken from a remote copy
+export const LOCAL_ONLY_FIELDS = ['lastSynced', 'synced', 'isRead', 'syncedAt'];
+
+// Fields that never count as a difference between two copies of a record
+const IGNORED_FIELDS = ['updatedAt', ...LOCAL_ONLY_FIELDS];
+
+// Table fields merged together as one unit by the per-field strategy
+const TABLE_STATUS_FIELDS: (keyof Table)[] = ['status', 'completedBy', 'completedAt', 'issueCategory', 'stages'];
+
+export interface MergeInput {
+    entity: SyncEntity;
+    local: SyncRecord[]; // Local copies of the records referenced by the remote batch
+    remote: SyncRecord[];
+    localTombstones: Tombstone[];
+    remoteTombstones: Tombstone[];
+    lastSyncAt: number; // Local time of the last delivered push; local edits after it are unsynced
+}
+
+export interface MergeResult {
+    toPut: SyncRecord[];
+    toDelete: string[];
+    conflicts: { recordId: string; local: SyncRecord; remote: SyncRecord }[];
+}
+
+// `updatedAt` of the remote version this device last applied (stamped below, local-only).
+// Missing on records that never came from another device.
+const syncedAtOf = (record: SyncRecord) => (record as { syncedAt?: number }).syncedAt;
+
+const withSyncedAt = <T extends SyncRecord>(record: T, syncedAt: number): T => Object.assign({}, record, { syncedAt });
+
+/**
+ * Copy without this device's bookkeeping, for records that leave the device
+ * or arrive from another one.
+ */
+export const stripLocalFields = <T extends object>(record: T): T => {
+    const result = { ...record } as Record<string, unknown>;
+    LOCAL_ONLY_FIELDS.forEach(field => delete result[field]);
+    return result as T;
+};
+
+const keepLocalFields = (incoming: SyncRecord, mine: SyncRecord): SyncRecord => {
+    const local: Record<string, unknown> = { ...mine };
+    const kept: Record<string, unknown> = {};
+    for (const field of LOCAL_ONLY_FIELDS) {
+        if (field in local) kept[field] = local[field];
+    }
+    return Object.assign({}, incoming, kept);
+};
+
+const differingFields = (a: Record<string, unknown>, b: Record<string, unknown>): string[] => {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).filter(k =>
+        !IGNORED_FIELDS.includes(k) &&
+        JSON.stringify(a[k]) !== JSON.stringify(b[k])
+    );
+};
+
+/**
+ * Per-field strategy for tables edited on two devices: when only the status
+ * differs and one side completed the table while the other still has it pending,
+ * the installation wins (a finished tracker is not un-built offline).
+ * Stages finished on either device are kept.
+ */
+const mergeTableStatus = (local: Table, remote: Table): Table | null => {
+    const fields = differingFields({ ...local }, { ...remote });
+    if (!fields.every(f => TABLE_STATUS_FIELDS.includes(f as keyof Table))) return null;
+
+    const stages = mergeStages(local.stages, remote.stages);
+    if (local.status === remote.status) {
+        // Different crews worked different stages of the same table
+        if (fields.some(f => f !== 'stages')) return null;
+        return { ...local, stages };
+    }
+
+    const statuses = [local.status, remote.status];
+    if (!statuses.includes(TableStatus.Completed) || !statuses.includes(TableStatus.Pending)) return null;
+
+    const winner = local.status === TableStatus.Completed ? local : remote;
+    return { ...local, status: winner.status, completedBy: winner.completedBy, completedAt: winner.completedAt, issueCategory: winner.issueCategory, stages };
+};
+
+/**
+ * Merges a remote batch of one entity into the local copies.
+ * Last writer wins on `updatedAt`; a record edited on both sides since the last
+ * sync is reported as a conflict and the local copy is kept until resolved.
+ *
+ * "Edited since the last sync" never compares clocks of two devices: a local copy
+ * is dirty when this device stamped it (it differs from the version last applied)
+ * after its last push, and the remote copy is dirty when it is not the version
+ * last applied here.
+ */
+export const mergeRecords = ({ entity, local, remote, localTombstones, remoteTombstones, lastSyncAt }: MergeInput): MergeResult => {
+    const result: MergeResult = { toPut: [], toDelete: [], conflicts: [] };
+    const localById = new Map(local.map(r => [r.id, r]));
+    const localDeletedAt = new Map(localTombstones.map(t => [t.id, t.deletedAt]));
+
+    for (const incoming of remote) {
+        const mine = localById.get(incoming.id);
+        const remoteAt = incoming.updatedAt || 0;
+
+        if (!mine) {
+            // Skip records we deleted after the remote copy was written
+            const deletedAt = localDeletedAt.get(incoming.id);
+            if (deletedAt === undefined || remoteAt > deletedAt) result.toPut.push(withSyncedAt(stripLocalFields(incoming), remoteAt));
+            continue;
+        }
+
+        if (differingFields({ ...mine }, { ...incoming }).length === 0) continue;
+
+        const localAt = mine.updatedAt || 0;
+        const base = syncedAtOf(mine);
+        // An untouched pulled copy still carries the remote stamp it arrived with
+        const localDirty = localAt !== base && localAt > lastSyncAt;
+        // Without a base version any differing remote copy may be a concurrent edit
+        const remoteDirty = base === undefined || remoteAt !== base;
+
+        if (localDirty && remoteDirty) {
+            const merged = entity === 'tables' ? mergeTableStatus(mine as Table, incoming as Table) : null;
+            if (merged) {
+                // A new local version: pushed next time, the remote one counts as seen
+                result.toPut.push(withSyncedAt({ ...merged, updatedAt: Math.max(localAt, remoteAt) + 1 }, remoteAt));
+            } else {
+                result.conflicts.push({ recordId: incoming.id, local: mine, remote: incoming });
+            }
+        } else if (!localDirty && remoteDirty && (localAt === base || remoteAt > localAt)) {
+            // An untouched pulled copy simply follows the remote; a pushed local edit competes on `updatedAt`
+            result.toPut.push(withSyncedAt(keepLocalFields(incoming, mine), remoteAt));
+        }
+    }
+
+    for (const tomb of remoteTombstones) {
+        const mine = localById.get(tomb.id);
+        // An edit made after the deletion resurrects the record
+        if (mine && (mine.updatedAt || 0) <= tomb.deletedAt) result.toDelete.push(tomb.id);
+    }
+
+    return result;
+};
@@ -0,0 +1,172 @@
+import { PowerConfig, Table, TableStatus } from '../types';
+import { calcSingleTableKwp } from './powerCalc';
+import { TABLE_WIDTH } from './mapGeometry';
+import { SpatialIndex } from './spatialIndex';
+import { fitViewport, levelOfDetail, renderMap } from './mapRenderer';
+import { encodeApng, zipFiles } from './frameEncoding';
+import { TrackerCatalogue, trackerOf } from './trackerTypes';
+
+export type TimelapseStep = 'day' | 'hour';
+export type TimelapseFormat = 'zip' | 'apng';
+
+export interface TimelapseFrame {
+    from: number; // Start of the bucket
+    at: number; // End of the bucket (exclusive); the map shows completions before it
+    label: string;
+    added: number; // Tables completed within the bucket
+    completed: number; // Running totals
+    kwp: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Exported animations are sampled down to keep file size and encode time sane
+const MAX_EXPORT_FRAMES = 240;
+const FRAME_WIDTH = 1280;
+const FRAME_HEIGHT = 720;
+const CAPTION_HEIGHT = 64;
+const FRAME_DELAY_MS = 250;
+const LAST_FRAME_DELAY_MS = 2000;
+
+const bucketStart = (timestamp: number, step: TimelapseStep) => {
+    const d = new Date(timestamp);
+    if (step === 'day') d.setHours(0, 0, 0, 0);
+    else d.setMinutes(0, 0, 0);
+    return d.getTime();
+};
+
+const nextBucket = (start: number, step: TimelapseStep) => {
+    if (step === 'hour') return start + HOUR_MS;
+    // Calendar day, so DST changes don't drift the buckets
+    const d = new Date(start);
+    d.setDate(d.getDate() + 1);
+    return d.getTime();
+};
+
+const frameLabel = (start: number, step: TimelapseStep) => step === 'day'
+    ? new Date(start).toLocaleDateString('cs-CZ')
+    : new Date(start).toLocaleString('cs-CZ', { day: 'numeric', month: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Cumulative progress per day or hour, from the first to the last completion.
+ * Days without work stay in the timeline so stalls are visible; empty hours
+ * (nights, weekends) are skipped.
+ */
+export const buildTimeline = (tables: Table[], step: TimelapseStep, catalogue: TrackerCatalogue, config: PowerConfig): TimelapseFrame[] => {
+    const done = tables
+        .filter(t => t.status === TableStatus.Completed && t.completedAt)
+        .sort((a, b) => a.completedAt! - b.completedAt!);
+    if (done.length === 0) return [];
+
+    const frames: TimelapseFrame[] = [];
+    const last = done[done.length - 1].completedAt!;
+    let completed = 0;
+    let kwp = 0;
+    let i = 0;
+    for (let from = bucketStart(done[0].completedAt!, step); from <= last; from = nextBucket(from, step)) {
+        const at = nextBucket(from, step);
+        let added = 0;
+        while (i < done.length && done[i].completedAt! < at) {
+            kwp += calcSingleTableKwp(trackerOf(catalogue, done[i].type), config);
+            added++;
+            i++;
+        }
+        completed += added;
+        if (step === 'hour' && added === 0) continue;
+        frames.push({ from, at, label: frameLabel(from, step), added, completed, kwp });
+    }
+    return frames;
+};
+
+/**
+ * The tables as they stood at `at`. Only completions have a timestamp, so
+ * everything else (including current issues) replays as pending.
+ */
+export const snapshotAt = (tables: Table[], at: number): Table[] => tables.map(t => {
+    if (t.status === TableStatus.Completed && t.completedAt && t.completedAt < at) return t;
+    if (t.status === TableStatus.Pending) return t;
+    return { ...t, status: TableStatus.Pending };
+});
+
+export const isCompletedWithin = (table: Table, frame: TimelapseFrame) =>
+    table.status === TableStatus.Completed && !!table.completedAt && table.completedAt >= frame.from && table.completedAt < frame.at;
+
+// Evenly spaced subset that always keeps the final state
+const sampleFrames = (frames: TimelapseFrame[]) => {
+    if (frames.length <= MAX_EXPORT_FRAMES) return frames;
+    const step = (frames.length - 1) / (MAX_EXPORT_FRAMES - 1);
+    return Array.from({ length: MAX_EXPORT_FRAMES }, (_, i) => frames[Math.round(i * step)]);
+};
+
+const renderFrame = (
+    ctx: CanvasRenderingContext2D,
+    tables: Table[],
+    frame: TimelapseFrame,
+    totalKwp: number,
+    projectName: string,
+    catalogue: TrackerCatalogue
+) => {
+    const snapshot = snapshotAt(tables, frame.at);
+    const index = new SpatialIndex(snapshot);
+    const mapHeight = FRAME_HEIGHT - CAPTION_HEIGHT;
+    const viewport = fitViewport(index.bounds, FRAME_WIDTH, mapHeight, TABLE_WIDTH);
+
+    ctx.save();
+    ctx.translate(0, CAPTION_HEIGHT);
+    renderMap(ctx, index, viewport, {
+        exportMode: true,
+        lod: levelOfDetail(viewport.scale) === 'aggregate' ? 'simple' : undefined,
+        isHighlighted: t => isCompletedWithin(t, frame),
+        labelFor: t => trackerOf(catalogue, t.type).code
+    });
+    ctx.restore();
+
+    // Caption: project and date on the left, running counter on the right
+    ctx.fillStyle = '#1e293b';
+    ctx.fillRect(0, 0, FRAME_WIDTH, CAPTION_HEIGHT);
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 24px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillText(`${projectName} • ${frame.label}`, 24, CAPTION_HEIGHT / 2);
+    const percent = totalKwp > 0 ? Math.round(frame.kwp / totalKwp * 100) : 0;
+    ctx.textAlign = 'right';
+    ctx.fillText(`${frame.completed} stolů • ${frame.kwp.toFixed(1)} kWp (${percent} %)`, FRAME_WIDTH - 24, CAPTION_HEIGHT / 2);
+};
+
+/**
+ * Renders the replay at a fixed size and packs it as a ZIP of PNG frames or a looping APNG.
+ */
+export const exportTimelapse = async (
+    format: TimelapseFormat,
+    tables: Table[],
+    frames: TimelapseFrame[],
+    projectName: string,
+    catalogue: TrackerCatalogue,
+    config: PowerConfig,
+    onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = FRAME_WIDTH;
+    canvas.height = FRAME_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    const totalKwp = tables.reduce((sum, t) => sum + calcSingleTableKwp(trackerOf(catalogue, t.type), config), 0);
+    const selected = sampleFrames(frames);
+    const pngs: ArrayBuffer[] = [];
+    for (const frame of selected) {
+        renderFrame(ctx, tables, frame, totalKwp, projectName, catalogue);
+        const blob = await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Canvas export failed'))), 'image/png');
+        });
+        pngs.push(await blob.arrayBuffer());
+        onProgress?.(pngs.length, selected.length);
+    }
+
+    if (format === 'apng') {
+        return encodeApng(pngs, selected.map((_, i) => (i === selected.length - 1 ? LAST_FRAME_DELAY_MS : FRAME_DELAY_MS)));
+    }
+    const digits = String(pngs.length).length;
+    return zipFiles(pngs.map((data, i) => ({ name: `frame_${String(i + 1).padStart(digits, '0')}.png`, data })));
+};
@@ -0,0 +1,81 @@
+import { Table, TableType, TrackerType } from '../types';
+
+// The S/M/L trackers of the first sites; tables and layout files still refer to them by code
+export const BUILTIN_TRACKER_TYPES: TrackerType[] = [
+    { id: TableType.Small, code: 'S', name: 'Small', strings: 1 },
+    { id: TableType.Medium, code: 'M', name: 'Medium', strings: 1.5 },
+    { id: TableType.Large, code: 'L', name: 'Large', strings: 2 }
+];
+
+// Spelled out names some layout exports use for the built-in types
+const BUILTIN_ALIASES: Record<string, string> = {
+    SMALL: TableType.Small,
+    MEDIUM: TableType.Medium,
+    LARGE: TableType.Large
+};
+
+// Tracker types by ID, built-in types first, then the company's own in catalogue order
+export type TrackerCatalogue = Map<string, TrackerType>;
+
+export const buildCatalogue = (stored: TrackerType[] = []): TrackerCatalogue => {
+    const catalogue: TrackerCatalogue = new Map(BUILTIN_TRACKER_TYPES.map(t => [t.id, t]));
+    stored
+        .filter(t => !catalogue.has(t.id))
+        .sort((a, b) => a.strings - b.strings || a.name.localeCompare(b.name))
+        .forEach(t => catalogue.set(t.id, t));
+    return catalogue;
+};
+
+export const DEFAULT_CATALOGUE = buildCatalogue();
+
+/**
+ * Looks up a table's tracker type. Types deleted from the catalogue (or not
+ * synced to this device yet) fall back to a one-string tracker labelled by ID.
+ */
+export const trackerOf = (catalogue: TrackerCatalogue, id: string): TrackerType =>
+    catalogue.get(id) || { id, code: id.slice(0, 3), name: id, strings: 1 };
+
+/**
+ * Matches a type from a layout file by code, name or ID, ignoring case.
+ */
+export const findTrackerType = (catalogue: TrackerCatalogue, value: unknown): TrackerType | null => {
+    const text = String(value ?? '').trim().toUpperCase();
+    if (!text) return null;
+    const id = BUILTIN_ALIASES[text];
+    if (id) return catalogue.get(id) || null;
+    for (const type of catalogue.values()) {
+        if (type.code.toUpperCase() === text || type.name.toUpperCase() === text || type.id.toUpperCase() === text) return type;
+    }
+    return null;
+};
+
+export const countByType = (tables: Pick<Table, 'type'>[]): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    tables.forEach(t => { counts[t.type] = (counts[t.type] || 0) + 1; });
+    return counts;
+};
+
+/**
+ * Converts table counts stored before the catalogue ({ small, medium, large })
+ * to counts by tracker type ID. Current counts pass through unchanged.
+ */
+export const legacyTableCounts = (counts: unknown): Record<string, number> => {
+    if (!counts || typeof counts !== 'object') return {};
+    const legacy = counts as { small?: number; medium?: number; large?: number };
+    if (!('small' in legacy || 'medium' in legacy || 'large' in legacy)) return counts as Record<string, number>;
+    return {
+        [TableType.Small]: legacy.small || 0,
+        [TableType.Medium]: legacy.medium || 0,
+        [TableType.Large]: legacy.large || 0
+    };
+};
+
+// Counts for apps from before the catalogue; other tracker types have no slot there
+export const toLegacyTableCounts = (counts: Record<string, number>) => ({
+    small: counts[TableType.Small] || 0,
+    medium: counts[TableType.Medium] || 0,
+    large: counts[TableType.Large] || 0
+});
+
+export const totalTables = (counts: Record<string, number>) =>
+    Object.values(counts).reduce((sum, n) => sum + (n || 0), 0);
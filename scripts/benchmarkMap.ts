@@ -0,0 +1,132 @@
+/**
+ * Headless benchmark for the CanvasMap renderer and spatial index.
+ * Usage: npm run bench:map [-- 1000 8000 20000]
+ *
+ * Generates tracker layouts, then replays a pan/zoom path against a canvas
+ * context stub that only counts calls. Compares culled rendering and indexed
+ * hit-testing with drawing / scanning every table, as CanvasMap did before.
+ */
+import { Table, TableStatus, TableType } from '../types';
+import { hitTable, Point } from '../logic/mapGeometry';
+import { SpatialIndex } from '../logic/spatialIndex';
+import { MapViewport, renderMap } from '../logic/mapRenderer';
+
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 600;
+const FRAMES = 120;
+const HIT_TESTS = 5000;
+
+// Deterministic PRNG so runs are comparable
+const random = (() => {
+  let seed = 42;
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+})();
+
+/**
+ * Blocks of 20 rows x 20 trackers with roads between them, mixed types and progress.
+ */
+const generateLayout = (count: number): Table[] => {
+  const tables: Table[] = [];
+  const types = [TableType.Small, TableType.Medium, TableType.Large];
+  const blocksPerRow = Math.ceil(Math.sqrt(count / 400));
+  for (let index = 0; index < count; index++) {
+    const block = Math.floor(index / 400);
+    const inBlock = index % 400;
+    const roll = random();
+    tables.push({
+      id: `bench_${index}`,
+      projectId: 'bench',
+      index,
+      type: types[index % 3],
+      status: roll < 0.55 ? TableStatus.Completed : roll < 0.6 ? TableStatus.Issue : TableStatus.Pending,
+      x: (block % blocksPerRow) * 22 + (inBlock % 20),
+      y: Math.floor(block / blocksPerRow) * 22 + Math.floor(inBlock / 20),
+      row: String(Math.floor(inBlock / 20)),
+      block: String(block)
+    });
+  }
+  return tables;
+};
+
+// Canvas context stand-in: every method is a counted no-op, properties are plain fields
+const createCountingContext = () => {
+  const counter = { calls: 0 };
+  const fields: Record<string | symbol, unknown> = {};
+  const ctx = new Proxy(fields, {
+    get: (target, key) => {
+      if (key in target) return target[key];
+      return () => { counter.calls++; };
+    },
+    set: (target, key, value) => {
+      target[key] = value;
+      return true;
+    }
+  }) as unknown as CanvasRenderingContext2D;
+  return { ctx, counter };
+};
+
+// Zoomed-in panning, a mid zoom, then the whole park, as a foreman would browse
+const viewportPath = (index: SpatialIndex): MapViewport[] => {
+  const b = index.bounds!;
+  const path: MapViewport[] = [];
+  const scales = [1.5, 1, 0.45, 0.1];
+  for (let i = 0; i < FRAMES; i++) {
+    const scale = scales[Math.floor(i / (FRAMES / scales.length))];
+    const cx = b.minX + (b.maxX - b.minX) * random();
+    const cy = b.minY + (b.maxY - b.minY) * random();
+    path.push({ scale, offset: { x: VIEW_WIDTH / 2 - cx * scale, y: VIEW_HEIGHT / 2 - cy * scale }, width: VIEW_WIDTH, height: VIEW_HEIGHT });
+  }
+  return path;
+};
+
+const time = (fn: () => void) => {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+};
+
+const run = (count: number) => {
+  const tables = generateLayout(count);
+  let index!: SpatialIndex;
+  const buildMs = time(() => { index = new SpatialIndex(tables); });
+  const path = viewportPath(index);
+
+  // Culled, level-of-detail rendering
+  const culled = createCountingContext();
+  const culledMs = time(() => path.forEach(v => renderMap(culled.ctx, index, v)));
+
+  // Baseline: every table in full detail on every frame
+  const b = index.bounds!;
+  const everything: MapViewport = { scale: 1, offset: { x: -b.minX, y: -b.minY }, width: b.maxX - b.minX, height: b.maxY - b.minY };
+  const naive = createCountingContext();
+  const naiveMs = time(() => path.forEach(() => renderMap(naive.ctx, index, everything)));
+
+  const points: Point[] = Array.from({ length: HIT_TESTS }, () => ({
+    x: b.minX + (b.maxX - b.minX) * random(),
+    y: b.minY + (b.maxY - b.minY) * random()
+  }));
+  let indexedHits = 0;
+  let scannedHits = 0;
+  const indexedHitMs = time(() => points.forEach(p => { if (index.hitTest(p)) indexedHits++; }));
+  const scannedHitMs = time(() => points.forEach(p => { if (tables.find(t => hitTable(t, p))) scannedHits++; }));
+  if (indexedHits !== scannedHits) {
+    throw new Error(`Hit-test mismatch for ${count} tables: index ${indexedHits}, scan ${scannedHits}`);
+  }
+
+  return {
+    tables: count,
+    'build ms': buildMs.toFixed(1),
+    'frame ms (culled)': (culledMs / FRAMES).toFixed(2),
+    'frame ms (all)': (naiveMs / FRAMES).toFixed(2),
+    'ctx calls/frame (culled)': Math.round(culled.counter.calls / FRAMES),
+    'ctx calls/frame (all)': Math.round(naive.counter.calls / FRAMES),
+    'hit µs (index)': (indexedHitMs / HIT_TESTS * 1000).toFixed(1),
+    'hit µs (scan)': (scannedHitMs / HIT_TESTS * 1000).toFixed(1)
+  };
+};
+
+const sizes = process.argv.slice(2).map(Number).filter(n => n > 0);
+console.table((sizes.length > 0 ? sizes : [1000, 8000, 20000]).map(run));
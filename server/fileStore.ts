@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+
+export interface StoredBatch {
+  seq: number;
+  deviceId: string;
+  receivedAt: number;
+  data: string; // LZ-compressed SyncPayload exactly as pushed
+}
+
+interface StoreFile {
+  batches: StoredBatch[];
+  acks: Record<string, { cursor: number; at: number }>;
+}
+
+/**
+ * Append-only log of pushed batches, mirroring the RawData sheet of the Apps Script backend.
+ */
+export interface SyncStore {
+  append(deviceId: string, data: string): Promise<number>;
+  /** Batches after `cursor` not pushed by `deviceId`, plus the new cursor. */
+  readAfter(cursor: number, deviceId: string): Promise<{ batches: StoredBatch[]; cursor: number }>;
+  ack(deviceId: string, cursor: number): Promise<void>;
+}
+
+/**
+ * JSON file backed store. Writes are serialized and go through a temp file
+ * so a crash never leaves a half written log behind.
+ */
+export const createFileStore = (filePath: string): SyncStore => {
+  let cache: StoreFile | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<StoreFile> => {
+    if (cache) return cache;
+    try {
+      cache = JSON.parse(await fs.readFile(filePath, 'utf8')) as StoreFile;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+      cache = { batches: [], acks: {} };
+    }
+    return cache;
+  };
+
+  const save = async (data: StoreFile) => {
+    const tmp = `${filePath}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, filePath);
+  };
+
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    append: (deviceId, data) => exclusive(async () => {
+      const store = await load();
+      const seq = (store.batches[store.batches.length - 1]?.seq || 0) + 1;
+      store.batches.push({ seq, deviceId, receivedAt: Date.now(), data });
+      await save(store);
+      return seq;
+    }),
+
+    readAfter: (cursor, deviceId) => exclusive(async () => {
+      const store = await load();
+      const newer = store.batches.filter(b => b.seq > cursor);
+      return {
+        batches: newer.filter(b => b.deviceId !== deviceId),
+        cursor: newer.length > 0 ? newer[newer.length - 1].seq : cursor
+      };
+    }),
+
+    ack: (deviceId, cursor) => exclusive(async () => {
+      const store = await load();
+      store.acks[deviceId] = { cursor, at: Date.now() };
+      await save(store);
+    })
+  };
+};
@@ -0,0 +1,16 @@
+import path from 'path';
+import { createFileStore } from './fileStore';
+import { createSyncServer } from './syncServer';
+
+// Usage: npm run sync-server  (MST_SYNC_PORT, MST_SYNC_DATA and MST_SYNC_SECRET override the defaults)
+const port = Number(process.env.MST_SYNC_PORT || 8787);
+const dataFile = path.resolve(process.env.MST_SYNC_DATA || 'mst-sync-data.json');
+const secret = process.env.MST_SYNC_SECRET || '';
+
+if (!secret) {
+  console.warn('[MST sync] MST_SYNC_SECRET not set, accepting unsigned requests');
+}
+
+createSyncServer(createFileStore(dataFile), { secret }).listen(port, () => {
+  console.log(`[MST sync] listening on http://0.0.0.0:${port}, data in ${dataFile}`);
+});
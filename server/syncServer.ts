@@ -0,0 +1,178 @@
+import http from 'http';
+import { SyncAckRequest, SyncPushRequest, SyncResponse } from '../types';
+import { SyncStore } from './fileStore';
+import { SIGNATURE_MAX_AGE_MS, pullContent, verifySignature } from '../services/requestSigning';
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+const send = (res: http.ServerResponse, code: number, body: SyncResponse) => {
+  res.writeHead(code, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * The request body exceeds the size limit; answered with 413.
+ */
+class BodyTooLargeError extends Error {}
+
+const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep draining instead of destroying the socket, so the 413 still reaches the client
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(new BodyTooLargeError('Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+};
+
+// Null for bodies that are not a JSON object, so the caller can answer 400 instead of 500
+const parseBody = <T>(raw: string): T | null => {
+  try {
+    const body = JSON.parse(raw);
+    return body && typeof body === 'object' ? body as T : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface SyncServerOptions {
+  secret?: string; // Shared HMAC secret; when set, unsigned and replayed requests are rejected
+  maxBodyBytes?: number; // Defaults to MAX_BODY_BYTES
+}
+
+/**
+ * Remembers nonces for as long as their timestamps stay acceptable,
+ * so a captured request cannot be sent again.
+ */
+const createReplayGuard = () => {
+  const seen = new Map<string, number>();
+  return (nonce: string) => {
+    const now = Date.now();
+    seen.forEach((expiresAt, key) => {
+      if (expiresAt < now) seen.delete(key);
+    });
+    if (seen.has(nonce)) return false;
+    seen.set(nonce, now + 2 * SIGNATURE_MAX_AGE_MS);
+    return true;
+  };
+};
+
+/**
+ * Reference sync backend speaking the same protocol as apps-script-backend.gs:
+ * POST /push, GET /pull?cursor=&deviceId=, POST /ack.
+ */
+export const createSyncServer = (store: SyncStore, options: SyncServerOptions = {}) => {
+  const acceptNonce = createReplayGuard();
+  const maxBodyBytes = options.maxBodyBytes ?? MAX_BODY_BYTES;
+
+  // Returns an error message when the request must be refused
+  const checkSignature = (url: URL, content: string): string | null => {
+    if (!options.secret) return null;
+    const signature = {
+      ts: url.searchParams.get('ts') || undefined,
+      nonce: url.searchParams.get('nonce') || undefined,
+      sig: url.searchParams.get('sig') || undefined
+    };
+    const error = verifySignature(options.secret, signature, content);
+    if (error) return error;
+    if (!acceptNonce(signature.nonce!)) return 'Replayed request';
+    return null;
+  };
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (req.method === 'OPTIONS') {
+        send(res, 200, { status: 'success' });
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === '/') {
+        send(res, 200, { status: 'active', message: 'MST sync server is running' });
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/push') {
+        const raw = await readBody(req, maxBodyBytes);
+        const denied = checkSignature(url, raw);
+        if (denied) {
+          send(res, 401, { status: 'error', message: denied });
+          return;
+        }
+        const body = parseBody<SyncPushRequest>(raw);
+        if (!body) {
+          send(res, 400, { status: 'error', message: 'Malformed JSON body' });
+          return;
+        }
+        if (!body.deviceId || typeof body.data !== 'string') {
+          send(res, 400, { status: 'error', message: 'Missing deviceId or data' });
+          return;
+        }
+        const seq = await store.append(body.deviceId, body.data);
+        send(res, 200, { status: 'success', message: 'Batch stored', cursor: String(seq) });
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === '/pull') {
+        const deviceId = url.searchParams.get('deviceId') || '';
+        const cursor = url.searchParams.get('cursor') || '';
+        const denied = checkSignature(url, pullContent(deviceId, cursor));
+        if (denied) {
+          send(res, 401, { status: 'error', message: denied });
+          return;
+        }
+        const result = await store.readAfter(Number(cursor) || 0, deviceId);
+        send(res, 200, {
+          status: 'success',
+          batches: result.batches.map(b => b.data),
+          cursor: String(result.cursor)
+        });
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/ack') {
+        const raw = await readBody(req, maxBodyBytes);
+        const denied = checkSignature(url, raw);
+        if (denied) {
+          send(res, 401, { status: 'error', message: denied });
+          return;
+        }
+        const body = parseBody<SyncAckRequest>(raw);
+        if (!body) {
+          send(res, 400, { status: 'error', message: 'Malformed JSON body' });
+          return;
+        }
+        if (!body.deviceId) {
+          send(res, 400, { status: 'error', message: 'Missing deviceId' });
+          return;
+        }
+        await store.ack(body.deviceId, Number(body.cursor) || 0);
+        send(res, 200, { status: 'success' });
+        return;
+      }
+
+      send(res, 404, { status: 'error', message: 'Not found' });
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        send(res, 413, { status: 'error', message: error.message });
+        return;
+      }
+      console.error('[MST sync]', error);
+      send(res, 500, { status: 'error', message: String(error) });
+    }
+  });
+};
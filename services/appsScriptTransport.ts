@@ -0,0 +1,34 @@
+import { SyncAckRequest, SyncPushRequest } from '../types';
+import { SyncTransport, readSyncResponse } from './syncTransport';
+import { pullContent, signedUrl } from './requestSigning';
+
+/**
+ * Transport for the Google Apps Script web app in apps-script-backend.gs.
+ * Apps Script cannot answer CORS preflights, so bodies go out as plain text
+ * and everything talks to the single deployment URL.
+ * With a `secret`, every request carries an HMAC signature in the query string.
+ */
+export const createAppsScriptTransport = (url: string, secret = ''): SyncTransport => {
+  const post = async (body: SyncPushRequest | SyncAckRequest) => {
+    const text = JSON.stringify(body);
+    return readSyncResponse(await fetch(signedUrl(url, secret, text), { method: 'POST', body: text }));
+  };
+
+  return {
+    async push(deviceId, data) {
+      return post({ action: 'push', deviceId, data });
+    },
+
+    async pull(deviceId, cursor) {
+      const params = new URLSearchParams({ action: 'pull', deviceId, cursor });
+      const separator = url.includes('?') ? '&' : '?';
+      const pullUrl = signedUrl(`${url}${separator}${params}`, secret, pullContent(deviceId, cursor));
+      const result = await readSyncResponse(await fetch(pullUrl, { method: 'GET' }));
+      return { batches: result.batches || [], cursor: result.cursor || cursor, message: result.message };
+    },
+
+    async ack(deviceId, cursor) {
+      await post({ action: 'ack', deviceId, cursor });
+    }
+  };
+};
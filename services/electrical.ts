@@ -0,0 +1,71 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, deleteSynced } from '../db';
+import { CombinerBox, Inverter, Table } from '../types';
+import { assignStrings } from '../logic/electrical';
+import { TrackerCatalogue } from '../logic/trackerTypes';
+
+export const addInverter = async (projectId: string, name: string, acPowerKw: number): Promise<Inverter> => {
+  const inverter: Inverter = { id: uuidv4(), projectId, name: name.trim(), acPowerKw };
+  await db.inverters.add(inverter);
+  return inverter;
+};
+
+export const addCombinerBox = async (inverter: Inverter, name: string): Promise<CombinerBox> => {
+  const box: CombinerBox = { id: uuidv4(), projectId: inverter.projectId, inverterId: inverter.id, name: name.trim() };
+  await db.combinerBoxes.add(box);
+  return box;
+};
+
+const unlinkTables = async (boxIds: string[]) => {
+  if (boxIds.length === 0) return;
+  await db.projectTables.where('combinerBoxId').anyOf(boxIds).modify(table => {
+    delete table.combinerBoxId;
+    delete table.stringIds;
+  });
+};
+
+/**
+ * Deletes combiner boxes; their tables become unassigned.
+ */
+export const deleteCombinerBoxes = async (boxIds: string[]) => {
+  await db.transaction('rw', [db.combinerBoxes, db.projectTables, db.tombstones], async () => {
+    await unlinkTables(boxIds);
+    await deleteSynced('combinerBoxes', boxIds);
+  });
+};
+
+/**
+ * Deletes an inverter together with its combiner boxes.
+ */
+export const deleteInverter = async (inverterId: string) => {
+  await db.transaction('rw', [db.inverters, db.combinerBoxes, db.projectTables, db.tombstones], async () => {
+    const boxIds = await db.combinerBoxes.where('inverterId').equals(inverterId).primaryKeys();
+    await unlinkTables(boxIds);
+    await deleteSynced('combinerBoxes', boxIds);
+    await deleteSynced('inverters', [inverterId]);
+  });
+};
+
+/**
+ * Lands the tables' strings in the combiner box, numbering them after its existing strings.
+ */
+export const assignTablesToBox = async (tables: Table[], boxId: string, catalogue: TrackerCatalogue) => {
+  await db.transaction('rw', [db.combinerBoxes, db.projectTables], async () => {
+    const box = await db.combinerBoxes.get(boxId);
+    if (!box) return;
+    const boxTables = await db.projectTables.where('combinerBoxId').equals(boxId).toArray();
+    for (const change of assignStrings(tables, box, boxTables, catalogue)) {
+      await db.projectTables.update(change.id, { combinerBoxId: change.combinerBoxId, stringIds: change.stringIds });
+    }
+  });
+};
+
+/**
+ * Removes everything electrical of a project, used when the project is deleted.
+ */
+export const deleteProjectTopology = async (projectId: string) => {
+  const inverterIds = await db.inverters.where('projectId').equals(projectId).primaryKeys();
+  const boxIds = await db.combinerBoxes.where('projectId').equals(projectId).primaryKeys();
+  await deleteSynced('combinerBoxes', boxIds);
+  await deleteSynced('inverters', inverterIds);
+};
@@ -0,0 +1,94 @@
+import CryptoJS from 'crypto-js';
+import { safeEqual } from './requestSigning';
+
+// PBKDF2-SHA256 work factor for new files; stored per file so it can be raised later
+const PBKDF2_ITERATIONS = 60000;
+// Accepted work factors of imported files: a crafted huge value would freeze the tab,
+// a tiny one would make the key cheap to guess
+const MAX_PBKDF2_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+const SALT_BYTES = 16;
+const IV_BYTES = 16;
+
+interface EncryptedEnvelope {
+  format: 'mst-enc';
+  v: 1;
+  iter: number;
+  salt: string; // hex
+  iv: string; // hex
+  ct: string; // base64 AES-256-CBC ciphertext
+  mac: string; // hex HMAC-SHA256 over iv + ciphertext
+}
+
+/**
+ * Wrong passphrase or tampered data. Thrown before any plaintext is produced.
+ */
+export class DecryptionError extends Error {}
+
+// One PBKDF2 run yields both keys: the first 256 bits encrypt, the last 256 bits authenticate
+const deriveKeys = (passphrase: string, salt: CryptoJS.lib.WordArray, iterations: number) => {
+  const material = CryptoJS.PBKDF2(passphrase, salt, {
+    keySize: 512 / 32,
+    iterations,
+    hasher: CryptoJS.algo.SHA256
+  });
+  return {
+    encKey: CryptoJS.lib.WordArray.create(material.words.slice(0, 8), 32),
+    macKey: CryptoJS.lib.WordArray.create(material.words.slice(8, 16), 32)
+  };
+};
+
+export const isEncrypted = (content: string): boolean => {
+  return content.startsWith('{"format":"mst-enc"');
+};
+
+/**
+ * Encrypts text with AES-256 under a passphrase-derived key (PBKDF2, random salt),
+ * then authenticates it (encrypt-then-MAC). Returns a self-describing JSON string.
+ */
+export const encryptString = (plain: string, passphrase: string): string => {
+  const salt = CryptoJS.lib.WordArray.random(SALT_BYTES);
+  const iv = CryptoJS.lib.WordArray.random(IV_BYTES);
+  const { encKey, macKey } = deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const ciphertext = CryptoJS.AES.encrypt(plain, encKey, { iv }).ciphertext;
+  const mac = CryptoJS.HmacSHA256(iv.clone().concat(ciphertext), macKey);
+
+  const envelope: EncryptedEnvelope = {
+    format: 'mst-enc',
+    v: 1,
+    iter: PBKDF2_ITERATIONS,
+    salt: salt.toString(CryptoJS.enc.Hex),
+    iv: iv.toString(CryptoJS.enc.Hex),
+    ct: ciphertext.toString(CryptoJS.enc.Base64),
+    mac: mac.toString(CryptoJS.enc.Hex)
+  };
+  return JSON.stringify(envelope);
+};
+
+export const decryptString = (content: string, passphrase: string): string => {
+  let envelope: EncryptedEnvelope;
+  try {
+    envelope = JSON.parse(content);
+  } catch {
+    throw new DecryptionError('Poškozený šifrovaný soubor.');
+  }
+  if (!envelope || envelope.format !== 'mst-enc' || envelope.v !== 1) {
+    throw new DecryptionError('Neznámý formát šifrování.');
+  }
+  if (!Number.isInteger(envelope.iter) || envelope.iter < PBKDF2_ITERATIONS || envelope.iter > MAX_PBKDF2_ITERATIONS) {
+    throw new DecryptionError('Neplatné parametry šifrování.');
+  }
+
+  const salt = CryptoJS.enc.Hex.parse(envelope.salt);
+  const iv = CryptoJS.enc.Hex.parse(envelope.iv);
+  const ciphertext = CryptoJS.enc.Base64.parse(envelope.ct);
+  const { encKey, macKey } = deriveKeys(passphrase, salt, envelope.iter);
+
+  const mac = CryptoJS.HmacSHA256(iv.clone().concat(ciphertext), macKey).toString(CryptoJS.enc.Hex);
+  if (typeof envelope.mac !== 'string' || !safeEqual(mac, envelope.mac)) {
+    throw new DecryptionError('Nesprávné heslo nebo poškozená data.');
+  }
+
+  const plain = CryptoJS.AES.decrypt(CryptoJS.lib.CipherParams.create({ ciphertext }), encKey, { iv });
+  return plain.toString(CryptoJS.enc.Utf8);
+};
@@ -1,10 +1,17 @@
 import LZString from 'lz-string';
-import { db } from '../db';
-import { SyncPayload } from '../types';
+import { db, SYNC_ENTITIES } from '../db';
+import { AccessLog, SyncConflict, SyncEntity, SyncPayload, SyncRecord, Tombstone } from '../types';
+import { mergeRecords, stripLocalFields } from '../logic/syncMerge';
+import { EnvelopeKind, PayloadVersionError, unwrapPayload, wrapPayload } from '../logic/payloadSchema';
+import { SyncBackend, SyncServerError, SyncTransport } from './syncTransport';
+import { createAppsScriptTransport } from './appsScriptTransport';
+import { createServerTransport } from './serverTransport';
+import { completeBatch, enqueueBatch, getDueBatches, markBatchFailed } from './outbox';
+import { DecryptionError, decryptString, encryptString, isEncrypted } from './encryption';
+import { EntityCounts, addEntityCounts, recordSyncAttempt } from './syncJournal';
 
 // In a real app, this URL comes from the deployed Google Apps Script Web App
-const SCRIPT_URL = localStorage.getItem('MST_SCRIPT_URL') || '';
-
+// (or points at the local sync server when the backend is set to 'server')
 export const setScriptUrl = (url: string) => {
   localStorage.setItem('MST_SCRIPT_URL', url);
 };
@@ -13,101 +20,443 @@ export const getScriptUrl = () => {
   return localStorage.getItem('MST_SCRIPT_URL') || '';
 };
 
-export const syncData = async (): Promise<{ success: boolean; message: string }> => {
+export const setSyncBackend = (backend: SyncBackend) => {
+  localStorage.setItem('MST_SYNC_BACKEND', backend);
+};
+
+export const getSyncBackend = (): SyncBackend => {
+  return localStorage.getItem('MST_SYNC_BACKEND') === 'server' ? 'server' : 'apps-script';
+};
+
+/**
+ * Builds the transport for the configured backend, or null when no URL is set.
+ */
+export const getSyncTransport = (): SyncTransport | null => {
   const url = getScriptUrl();
-  if (!url) {
-    return { success: false, message: 'Není nastavena URL Google Apps Scriptu.' };
+  if (!url) return null;
+  const secret = getSyncSecret();
+  return getSyncBackend() === 'server' ? createServerTransport(url, secret) : createAppsScriptTransport(url, secret);
+};
+
+// Shared HMAC secret, configured identically on the backend (SYNC_SECRET / MST_SYNC_SECRET)
+export const getSyncSecret = () => {
+  return localStorage.getItem('MST_SYNC_SECRET') || '';
+};
+
+export const setSyncSecret = (secret: string) => {
+  if (secret) localStorage.setItem('MST_SYNC_SECRET', secret);
+  else localStorage.removeItem('MST_SYNC_SECRET');
+};
+
+// Stable per-installation ID so the backend can skip a device's own batches on pull
+export const getDeviceId = () => {
+  let id = localStorage.getItem('MST_DEVICE_ID');
+  if (!id) {
+    id = Math.random().toString(36).substring(2) + Date.now().toString(36);
+    localStorage.setItem('MST_DEVICE_ID', id);
   }
+  return id;
+};
 
-  try {
-    // 1. Gather all data from IndexedDB
-    const projects = await db.projects.toArray();
-    const tables = await db.projectTables.toArray();
-    const team = await db.team.toArray();
-    const attendance = await db.attendance.toArray();
-
-    const payload: SyncPayload = {
-      projects,
-      tables,
-      team,
-      attendance
+// Delta sync state: local time of the last batch queued for push and the server pull cursor
+export const getLastPushAt = () => {
+  return Number(localStorage.getItem('MST_SYNC_LAST_PUSH') || 0);
+};
+
+export const getSyncCursor = () => {
+  return localStorage.getItem('MST_SYNC_CURSOR') || '';
+};
+
+/**
+ * Forgets the sync position so the next sync uploads every record again.
+ */
+export const resetSyncState = () => {
+  localStorage.removeItem('MST_SYNC_LAST_PUSH');
+  localStorage.removeItem('MST_SYNC_CURSOR');
+};
+
+// Entities this device pushes and pulls; everything is synced until the admin opts out
+export const getSyncEntities = (): SyncEntity[] => {
+  const stored = localStorage.getItem('MST_SYNC_ENTITIES');
+  if (!stored) return SYNC_ENTITIES;
+  const enabled: SyncEntity[] = JSON.parse(stored);
+  return SYNC_ENTITIES.filter(e => enabled.includes(e));
+};
+
+/**
+ * Saves the entity selection. Newly enabled entities are uploaded in full on
+ * the next sync, since their older changes were never pushed.
+ */
+export const setSyncEntities = (entities: SyncEntity[]) => {
+  const previous = getSyncEntities();
+  const added = entities.filter(e => !previous.includes(e));
+  const fullUpload = new Set([...getFullUploadEntities(), ...added]);
+  localStorage.setItem('MST_SYNC_ENTITIES', JSON.stringify(entities));
+  localStorage.setItem('MST_SYNC_FULL_UPLOAD', JSON.stringify(Array.from(fullUpload)));
+};
+
+const getFullUploadEntities = (): SyncEntity[] => {
+  return JSON.parse(localStorage.getItem('MST_SYNC_FULL_UPLOAD') || '[]');
+};
+
+// Optional passphrase for end-to-end encrypted sync bodies; must match on every device.
+// Kept in plain localStorage so background sync works after a reload: it protects data
+// on the server and in transit, not against someone with access to this browser profile.
+export const getSyncPassphrase = () => {
+  return localStorage.getItem('MST_SYNC_PASSPHRASE') || '';
+};
+
+export const setSyncPassphrase = (passphrase: string) => {
+  if (passphrase) localStorage.setItem('MST_SYNC_PASSPHRASE', passphrase);
+  else localStorage.removeItem('MST_SYNC_PASSPHRASE');
+};
+
+const errorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof SyncServerError) return 'Chyba serveru: ' + error.message;
+  if (error instanceof PayloadVersionError || error instanceof DecryptionError) return error.message;
+  return fallback;
+};
+
+export interface SyncResult {
+  success: boolean;
+  message: string;
+  queued: number; // Batches still waiting in the outbox
+}
+
+export interface FlushResult {
+  sent: number;
+  error?: string;
+}
+
+/**
+ * Pushes queued outbox batches in order. Stops at the first failure, which
+ * backs off that batch; later batches wait behind it.
+ */
+const sendQueuedBatches = async (force: boolean): Promise<FlushResult> => {
+  const transport = getSyncTransport();
+  if (!transport) return { sent: 0, error: 'Není nastavena URL sync backendu.' };
+
+  const deviceId = getDeviceId();
+  let sent = 0;
+  for (const batch of await getDueBatches(force)) {
+    const startedAt = Date.now();
+    const journal = {
+      startedAt,
+      direction: 'push' as const,
+      entityCounts: batch.entityCounts || {},
+      bytesRaw: batch.bytesRaw || 0,
+      bytesCompressed: batch.data.length,
+      deviceId
     };
+    try {
+      const response = await transport.push(deviceId, batch.data);
+      await recordSyncAttempt({ ...journal, status: 'success', durationMs: Date.now() - startedAt, response: response.message || response.status });
+    } catch (error) {
+      console.error('Sync error:', error);
+      const message = errorMessage(error, 'Server nedostupný.');
+      await recordSyncAttempt({ ...journal, status: 'error', durationMs: Date.now() - startedAt, response: message });
+      await markBatchFailed(batch, message);
+      return { sent, error: message };
+    }
+    await completeBatch(batch);
+    sent++;
+  }
+  return { sent };
+};
 
-    // 2. Compress data
-    const jsonString = JSON.stringify(payload);
-    const compressed = LZString.compressToEncodedURIComponent(jsonString);
+let activeFlush: Promise<FlushResult> | null = null;
 
-    // 3. Send to Google Sheets
-    const response = await fetch(url, {
-      method: 'POST',
-      body: JSON.stringify({ data: compressed }), 
+/**
+ * Sends whatever sits in the outbox; concurrent callers share one run.
+ * `force` ignores the backoff of the head batch (manual sync, back online).
+ */
+export const flushPendingSync = (force = false): Promise<FlushResult> => {
+  if (!activeFlush) {
+    activeFlush = sendQueuedBatches(force).finally(() => {
+      activeFlush = null;
     });
+  }
+  return activeFlush;
+};
+
+/**
+ * Wraps a payload in a versioned envelope, LZ-compresses it and encrypts it
+ * when a sync passphrase is set. Inverse of decodeSyncBody.
+ */
+export const encodeSyncBody = (kind: EnvelopeKind, payload: SyncPayload) => {
+  // Local-only fields (syncedAt, synced, isRead...) describe this device and never leave it
+  const outgoing: SyncPayload = { ...payload };
+  for (const entity of SYNC_ENTITIES) {
+    const records = outgoing[entity] as object[] | undefined;
+    if (records) (outgoing as Record<SyncEntity, object[]>)[entity] = records.map(stripLocalFields);
+  }
+  const jsonString = JSON.stringify(wrapPayload(kind, outgoing));
+  const compressed = LZString.compressToEncodedURIComponent(jsonString);
+  const passphrase = getSyncPassphrase();
+  return { data: passphrase ? encryptString(compressed, passphrase) : compressed, bytesRaw: jsonString.length };
+};
+
+/**
+ * Packs local changes into an outbox batch and tries to deliver the queue.
+ * Once queued, changes survive reloads and go out automatically when online.
+ */
+export const syncData = async (): Promise<SyncResult> => {
+  if (!getSyncTransport()) {
+    return { success: false, message: 'Není nastavena URL sync backendu.', queued: await db.outbox.count() };
+  }
 
-    const result = await response.json();
+  let count = 0;
+  try {
+    // 1. Gather records changed since the last batch was queued.
+    // Anything written while we read is newer than startedAt and goes next time.
+    const since = getLastPushAt();
+    const startedAt = Date.now();
+    const entities = getSyncEntities();
+    const fullUpload = getFullUploadEntities();
+    const payload: SyncPayload = { since, cursor: getSyncCursor() };
+    const entityCounts: EntityCounts = {};
 
-    if (result.status === 'success') {
-      // Update sync timestamps locally
-      const now = Date.now();
-      await db.projects.where('id').anyOf(projects.map(p => p.id)).modify({ lastSynced: now });
-      await db.attendance.where('id').anyOf(attendance.map(a => a.id)).modify({ synced: true });
-      return { success: true, message: 'Synchronizace proběhla úspěšně.' };
-    } else {
-      return { success: false, message: 'Chyba serveru: ' + result.message };
+    for (const entity of entities) {
+      const from = fullUpload.includes(entity) ? 0 : since;
+      const records = await db.syncTable(entity).where('updatedAt').above(from).toArray();
+      (payload as Record<SyncEntity, unknown[]>)[entity] = records;
+      if (records.length > 0) entityCounts[entity] = records.length;
+      count += records.length;
     }
+    payload.deleted = (await db.tombstones.where('deletedAt').above(since).toArray())
+      .filter(t => entities.includes(t.entity));
+    if (payload.deleted.length > 0) entityCounts.deleted = payload.deleted.length;
+    count += payload.deleted.length;
 
+    if (count > 0) {
+      // 2. Wrap in a versioned envelope, compress and hand it to the durable outbox
+      const { data, bytesRaw } = encodeSyncBody('sync', payload);
+      await enqueueBatch({
+        data,
+        recordCount: count,
+        entityCounts,
+        bytesRaw,
+        since,
+        projectIds: (payload.projects || []).map(p => p.id),
+        attendanceIds: (payload.attendance || []).map(a => a.id)
+      });
+    }
+    localStorage.setItem('MST_SYNC_LAST_PUSH', String(startedAt));
+    localStorage.removeItem('MST_SYNC_FULL_UPLOAD');
   } catch (error) {
     console.error('Sync error:', error);
-    return { success: false, message: 'Chyba při synchronizaci. Zkontrolujte připojení.' };
+    return { success: false, message: 'Chyba při čtení lokálních dat.', queued: await db.outbox.count() };
+  }
+
+  // 3. Send everything queued, oldest first
+  const result = await flushPendingSync(true);
+  const queued = await db.outbox.count();
+  if (result.error) {
+    return { success: false, message: `${result.error} Změny čekají ve frontě (${queued}).`, queued };
   }
+  return { success: true, message: `Synchronizace proběhla úspěšně (${count} změn).`, queued };
 };
 
 export const fetchDataFromCloud = async (): Promise<{ success: boolean; message: string }> => {
-    const url = getScriptUrl();
-    if (!url) return { success: false, message: 'Chybí URL' };
+    const transport = getSyncTransport();
+    if (!transport) return { success: false, message: 'Chybí URL' };
+
+    const deviceId = getDeviceId();
+    const startedAt = Date.now();
+    const entityCounts: EntityCounts = {};
+    let bytesRaw = 0;
+    let bytesCompressed = 0;
+    const journal = (status: 'success' | 'error', response: string) => recordSyncAttempt({
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        direction: 'pull',
+        status,
+        entityCounts,
+        bytesRaw,
+        bytesCompressed,
+        response,
+        deviceId
+    });
 
     try {
-        // GET Request to GAS
-        const response = await fetch(url, { method: 'GET' });
-        const result = await response.json();
-
-        if (result.status === 'success' && result.data) {
-             const success = await importData(result.data);
-             if (success) {
-                 return { success: true, message: 'Data stažena.' };
-             } else {
-                 return { success: false, message: 'Chyba dekomprese.' };
-             }
+        const { batches, cursor, message: serverMessage } = await transport.pull(deviceId, getSyncCursor());
+        bytesCompressed = batches.reduce((sum, b) => sum + b.length, 0);
+        if (batches.length === 0) {
+            // The cursor may still move past batches this device pushed itself
+            localStorage.setItem('MST_SYNC_CURSOR', cursor);
+            await transport.ack(deviceId, cursor);
+            await journal('success', serverMessage || 'Žádná nová data.');
+            return { success: true, message: 'Žádná nová data.' };
         }
-        return { success: false, message: 'Žádná data.' };
+
+        // Apply batches in server order. Locked or newer-schema batches throw and keep
+        // the cursor in front of them for a retry; corrupt ones can never be read, so
+        // they are journaled and skipped instead of blocking every later pull
+        let conflicts = 0;
+        let skipped = 0;
+        for (const batch of batches) {
+            const imported = await importData(batch);
+            if (!imported) {
+                skipped++;
+                await recordSyncAttempt({
+                    startedAt,
+                    durationMs: Date.now() - startedAt,
+                    direction: 'pull',
+                    status: 'error',
+                    entityCounts: {},
+                    bytesRaw: 0,
+                    bytesCompressed: batch.length,
+                    response: 'Chyba dekomprese, dávka přeskočena.',
+                    deviceId
+                });
+                continue;
+            }
+            conflicts += imported.conflicts;
+            bytesRaw += imported.bytesRaw;
+            addEntityCounts(entityCounts, imported.entityCounts);
+        }
+
+        localStorage.setItem('MST_SYNC_CURSOR', cursor);
+        await transport.ack(deviceId, cursor);
+
+        let message = conflicts > 0
+            ? `Data stažena, ${conflicts} konfliktů čeká na vyřešení.`
+            : 'Data stažena.';
+        if (skipped > 0) message += ` ${skipped} poškozených dávek přeskočeno.`;
+        await journal('success', `${batches.length} dávek, ${message}`);
+        return { success: true, message };
     } catch (e) {
         console.error(e);
-        return { success: false, message: 'Chyba sítě.' };
+        const message = errorMessage(e, 'Chyba sítě.');
+        await journal('error', message);
+        return { success: false, message };
+    }
+};
+
+export interface ImportResult {
+    applied: number;
+    deleted: number;
+    conflicts: number;
+    entityCounts: EntityCounts; // Records received per entity, before merging
+    bytesRaw: number; // Decompressed JSON size
+}
+
+const decryptSyncBody = (data: string) => {
+    const passphrase = getSyncPassphrase();
+    if (!passphrase) throw new DecryptionError('Data jsou šifrovaná, nastavte heslo synchronizace.');
+    return decryptString(data, passphrase);
+};
+
+/**
+ * Logs are append-only: add the ones this device has not seen, under a new local key.
+ */
+const appendLogs = async (remote: AccessLog[]) => {
+    const withIds = remote.filter(l => l.syncId);
+    if (withIds.length === 0) return 0;
+    const known = new Set((await db.logs.where('syncId').anyOf(withIds.map(l => l.syncId!)).toArray()).map(l => l.syncId));
+    const fresh = withIds.filter(l => !known.has(l.syncId)).map(({ id, ...log }) => log);
+    await db.logs.bulkAdd(fresh);
+    return fresh.length;
+};
+
+/**
+ * Turns a (possibly encrypted) LZ body back into a current-schema envelope.
+ * Throws PayloadVersionError / DecryptionError for incompatible or locked data.
+ */
+export const decodeSyncBody = (compressedData: string) => {
+    const body = isEncrypted(compressedData) ? decryptSyncBody(compressedData) : compressedData;
+    const json = LZString.decompressFromEncodedURIComponent(body);
+    if(!json) throw new Error("Decompression failed");
+    // Older payloads are upgraded, newer ones refused (PayloadVersionError)
+    return { ...unwrapPayload(JSON.parse(json)), bytesRaw: json.length };
+};
+
+/**
+ * Merges a decoded payload into the local database for the given entities.
+ * Records changed locally after `lastSyncAt` that also changed remotely become conflicts.
+ */
+export const applyPayload = async (data: SyncPayload, entities: SyncEntity[], lastSyncAt: number): Promise<ImportResult> => {
+    const summary: ImportResult = { applied: 0, deleted: 0, conflicts: 0, entityCounts: {}, bytesRaw: 0 };
+    for (const entity of entities) {
+        const received = data[entity]?.length;
+        if (received) summary.entityCounts[entity] = received;
     }
+    const deleted = (data.deleted || []).filter(t => entities.includes(t.entity)).length;
+    if (deleted) summary.entityCounts.deleted = deleted;
+    const tables = entities.map(entity => db.syncTable(entity));
+
+    await db.transaction('rw', [...tables, db.tombstones, db.conflicts], async () => {
+        for (const entity of entities) {
+            if (entity === 'logs') {
+                summary.applied += await appendLogs(data.logs || []);
+                continue;
+            }
+
+            const table = db.syncTable(entity);
+            const remote = (data[entity] || []) as SyncRecord[];
+            const remoteTombstones = (data.deleted || []).filter(t => t.entity === entity);
+            if (remote.length === 0 && remoteTombstones.length === 0) continue;
+
+            const ids = [...remote.map(r => r.id), ...remoteTombstones.map(t => t.id)];
+            const local = (await table.bulkGet(ids)).filter(Boolean) as SyncRecord[];
+            const localTombstones = (await db.tombstones.bulkGet(remote.map(r => [entity, r.id] as [typeof entity, string])))
+                .filter(Boolean) as Tombstone[];
+
+            const merged = mergeRecords({ entity, local, remote, localTombstones, remoteTombstones, lastSyncAt });
+
+            await table.bulkPut(merged.toPut);
+            await table.bulkDelete(merged.toDelete);
+            // Keep the remote tombstones so the deletion travels on to other devices
+            await db.tombstones.bulkPut(remoteTombstones);
+            await db.conflicts.bulkPut(merged.conflicts.map(c => ({
+                id: `${entity}_${c.recordId}`,
+                entity,
+                ...c,
+                detectedAt: Date.now()
+            })));
+
+            summary.applied += merged.toPut.length;
+            summary.deleted += merged.toDelete.length;
+            summary.conflicts += merged.conflicts.length;
+        }
+    });
+    return summary;
 };
 
-export const importData = async (compressedData: string) => {
-    // Decompress and populate DB
+/**
+ * Merges a compressed cloud payload into the local database.
+ * Conflicting records keep their local version and are queued in `db.conflicts`.
+ * Returns null for unreadable data; throws PayloadVersionError for incompatible schemas
+ * and DecryptionError when an encrypted batch cannot be opened with our passphrase.
+ */
+export const importData = async (compressedData: string): Promise<ImportResult | null> => {
     try {
-        const json = LZString.decompressFromEncodedURIComponent(compressedData);
-        if(!json) throw new Error("Decompression failed");
-        const data: SyncPayload = JSON.parse(json);
-        
-        await db.transaction('rw', db.projects, db.projectTables, db.team, db.attendance, async () => {
-            // Strategy: Overwrite local data with cloud data
-            // In a real app, you might want a smarter merge strategy
-            await db.projects.clear();
-            await db.projectTables.clear();
-            await db.team.clear();
-            await db.attendance.clear();
-
-            if (data.projects) await db.projects.bulkPut(data.projects);
-            if (data.tables) await db.projectTables.bulkPut(data.tables);
-            if (data.team) await db.team.bulkPut(data.team);
-            if (data.attendance) await db.attendance.bulkPut(data.attendance);
-        });
-        return true;
+        const { payload, bytesRaw } = decodeSyncBody(compressedData);
+        // Changes still waiting in the outbox have not reached the server yet
+        const pending = await db.outbox.orderBy('id').first();
+        const lastSyncAt = pending ? pending.since : getLastPushAt();
+        const summary = await applyPayload(payload, getSyncEntities(), lastSyncAt);
+        return { ...summary, bytesRaw };
     } catch (e) {
         console.error(e);
-        return false;
+        if (e instanceof PayloadVersionError || e instanceof DecryptionError) throw e;
+        return null;
     }
-}
\ No newline at end of file
+};
+
+/**
+ * Settles a sync conflict by keeping one side. The chosen copy is re-stamped
+ * so it goes out as the newest version on the next sync.
+ */
+export const resolveConflict = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    const table = db.syncTable(conflict.entity);
+    await db.transaction('rw', table, db.conflicts, async () => {
+        const current = await table.get(conflict.recordId);
+        // The remote copy becomes the base this device has seen; its sender's bookkeeping is dropped
+        const chosen = keep === 'local'
+            ? (current || conflict.local)
+            : { ...stripLocalFields(conflict.remote), syncedAt: conflict.remote.updatedAt };
+        await table.put({ ...chosen, updatedAt: Date.now() });
+        await db.conflicts.delete(conflict.id);
+    });
+};
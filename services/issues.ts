@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { Issue, IssueCategory, IssueSeverity, Table, TableStatus } from '../types';
+import { recordStatusChanges } from './tableHistory';
+import { compressPhoto } from './tablePhotos';
+
+export interface NewIssue {
+  category: IssueCategory;
+  severity: IssueSeverity;
+  description: string;
+  assignee?: string;
+  photo?: Blob;
+}
+
+export const isIssueOpen = (issue: Issue) => !issue.resolvedAt;
+
+export const openIssuesOfTables = async (tableIds: string[]) =>
+  (await db.issues.where('tableIds').anyOf(tableIds).distinct().toArray()).filter(isIssueOpen);
+
+/**
+ * Files an issue against the tables and marks them as TableStatus.Issue.
+ * Completion data is kept so a resolved table returns to its installed state.
+ */
+export const reportIssue = async (tables: Table[], input: NewIssue, by: string, at = Date.now()): Promise<Issue> => {
+  // Compress before the transaction; it must not wait on anything outside Dexie
+  const photo = input.photo ? await compressPhoto(input.photo) : undefined;
+  const tableIds = tables.map(t => t.id);
+  const issue: Issue = {
+    id: uuidv4(),
+    projectId: tables[0].projectId,
+    tableIds,
+    category: input.category,
+    severity: input.severity,
+    description: input.description.trim(),
+    reportedBy: by,
+    reportedAt: at,
+    assignee: input.assignee || undefined,
+    priorStatuses: {}
+  };
+
+  await db.transaction('rw', [db.issues, db.projectTables, db.tableHistory, db.tablePhotos], async () => {
+    const open = await openIssuesOfTables(tableIds);
+    for (const table of tables) {
+      // A table already held by another issue returns to what it was before that one
+      const earlier = open.find(i => i.tableIds.includes(table.id));
+      issue.priorStatuses[table.id] = earlier?.priorStatuses[table.id]
+        ?? (table.status === TableStatus.Issue ? TableStatus.Pending : table.status);
+    }
+    await db.issues.add(issue);
+    await recordStatusChanges(tables, TableStatus.Issue, by, at);
+    await db.projectTables.where('id').anyOf(tableIds).modify({ status: TableStatus.Issue, issueCategory: issue.category });
+    if (photo) {
+      await db.tablePhotos.add({ id: uuidv4(), tableId: tableIds[0], projectId: issue.projectId, ...photo, takenAt: at, takenBy: by, issueId: issue.id });
+    }
+  });
+  return issue;
+};
+
+/**
+ * Closes the issue and puts each table back to its prior status, unless
+ * another open issue still holds it.
+ */
+export const resolveIssue = async (issueId: string, resolution: string, by: string, at = Date.now()) => {
+  await db.transaction('rw', [db.issues, db.projectTables, db.tableHistory], async () => {
+    const issue = await db.issues.get(issueId);
+    if (!issue || !isIssueOpen(issue)) return;
+    await db.issues.update(issueId, { resolvedAt: at, resolvedBy: by, resolution: resolution.trim() || undefined });
+
+    const stillOpen = (await openIssuesOfTables(issue.tableIds)).filter(i => i.id !== issueId);
+    const tables = (await db.projectTables.bulkGet(issue.tableIds)).filter(Boolean) as Table[];
+    for (const table of tables) {
+      // Someone already changed the table on the map; leave it be
+      if (table.status !== TableStatus.Issue) continue;
+      const holder = stillOpen.find(i => i.tableIds.includes(table.id));
+      if (holder) {
+        await db.projectTables.update(table.id, { issueCategory: holder.category });
+        continue;
+      }
+      const status = issue.priorStatuses[table.id] ?? TableStatus.Pending;
+      await recordStatusChanges([table], status, by, at);
+      await db.projectTables.update(table.id, { status, issueCategory: undefined });
+    }
+  });
+};
+
+export const updateIssueAssignee = (issueId: string, assignee: string) =>
+  db.issues.update(issueId, { assignee: assignee || undefined });
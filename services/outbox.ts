@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { OutboxBatch } from '../types';
+
+// Retry delays double per failed attempt: 30 s, 1 min, 2 min ... capped at 30 min
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+const WORKER_INTERVAL_MS = 15 * 1000;
+
+export const backoffDelay = (attempts: number) => {
+  return Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS);
+};
+
+export const enqueueBatch = async (batch: Pick<OutboxBatch, 'data' | 'recordCount' | 'entityCounts' | 'bytesRaw' | 'since' | 'projectIds' | 'attendanceIds'>) => {
+  const now = Date.now();
+  return db.outbox.add({ ...batch, createdAt: now, attempts: 0, nextAttemptAt: now });
+};
+
+/**
+ * Batches to send now, oldest first. Order matters, so nothing is due
+ * while the head of the queue is still waiting out its backoff.
+ */
+export const getDueBatches = async (force = false): Promise<OutboxBatch[]> => {
+  const batches = await db.outbox.orderBy('id').toArray();
+  if (!force && batches.length > 0 && batches[0].nextAttemptAt > Date.now()) return [];
+  return batches;
+};
+
+export const markBatchFailed = async (batch: OutboxBatch, error: string) => {
+  const attempts = batch.attempts + 1;
+  await db.outbox.update(batch.id!, {
+    attempts,
+    nextAttemptAt: Date.now() + backoffDelay(attempts),
+    lastError: error
+  });
+};
+
+/**
+ * Removes a delivered batch and marks its records as synced.
+ */
+export const completeBatch = async (batch: OutboxBatch) => {
+  const now = Date.now();
+  await db.transaction('rw', db.outbox, db.projects, db.attendance, async () => {
+    await db.outbox.delete(batch.id!);
+    await db.projects.where('id').anyOf(batch.projectIds).modify({ lastSynced: now });
+    await db.attendance.where('id').anyOf(batch.attendanceIds).modify({ synced: true });
+  });
+};
+
+/**
+ * Shows an unexpected flush failure (e.g. a database error) on the pending badge,
+ * which reads `lastError` of the queue head.
+ */
+const recordFlushError = async (error: unknown) => {
+  console.error('Outbox flush failed:', error);
+  const head = await db.outbox.orderBy('id').first();
+  if (head) await db.outbox.update(head.id!, { lastError: error instanceof Error ? error.message : String(error) });
+};
+
+/**
+ * Retries queued batches in the background: on a timer while online and
+ * immediately (ignoring backoff) when the browser comes back online.
+ * Returns a cleanup function for useEffect.
+ */
+export const startOutboxWorker = (flush: (force: boolean) => Promise<unknown>) => {
+  const run = (force: boolean) => {
+    flush(force).catch(error => recordFlushError(error).catch(console.error));
+  };
+  const tick = () => {
+    if (navigator.onLine) run(false);
+  };
+  const handleOnline = () => {
+    run(true);
+  };
+
+  const intervalId = setInterval(tick, WORKER_INTERVAL_MS);
+  window.addEventListener('online', handleOnline);
+  tick();
+
+  return () => {
+    clearInterval(intervalId);
+    window.removeEventListener('online', handleOnline);
+  };
+};
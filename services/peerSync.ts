@@ -0,0 +1,164 @@
+import { db } from '../db';
+import { PeerPacketInfo, SyncEntity, SyncPayload } from '../types';
+import { PayloadVersionError } from '../logic/payloadSchema';
+import { DecryptionError } from './encryption';
+import { applyPayload, decodeSyncBody, encodeSyncBody, getDeviceId, getLastPushAt, ImportResult } from './googleSheetService';
+
+// Offline packets only reconcile field progress: installed tables, their history, issues and attendance
+export const PEER_ENTITIES: SyncEntity[] = ['tables', 'tableHistory', 'issues', 'attendance'];
+
+// Characters per QR frame; small enough to scan reliably off a phone screen
+const QR_CHUNK_SIZE = 800;
+const QR_PREFIX = 'MSTP';
+
+/**
+ * What this device knows about another one, from the packets exchanged so far.
+ *  received  - revision of the newest packet imported from the peer
+ *  delivered - our own revision the peer has confirmed importing (the next export starts here)
+ */
+export interface PeerState {
+  deviceId: string;
+  name: string;
+  received: number;
+  delivered: number;
+  lastSeenAt: number;
+}
+
+export class PeerPacketError extends Error {}
+
+export const getPeers = (): Record<string, PeerState> => {
+  return JSON.parse(localStorage.getItem('MST_PEERS') || '{}');
+};
+
+const savePeers = (peers: Record<string, PeerState>) => {
+  localStorage.setItem('MST_PEERS', JSON.stringify(peers));
+};
+
+export interface PeerPacket {
+  data: string; // LZ-compressed (optionally encrypted) envelope of kind 'packet'
+  recordCount: number;
+}
+
+/**
+ * Builds a packet of table and attendance changes the given peer has not
+ * confirmed yet. Without a peer (first exchange) everything is included.
+ */
+export const buildPeerPacket = async (senderName: string, peerId?: string): Promise<PeerPacket> => {
+  const peers = getPeers();
+  const since = peerId ? peers[peerId]?.delivered || 0 : 0;
+  const revision = Date.now();
+
+  const known: Record<string, number> = {};
+  Object.values(peers).forEach(p => { known[p.deviceId] = p.received; });
+  const peer: PeerPacketInfo = { deviceId: getDeviceId(), name: senderName, revision, known };
+
+  const payload: SyncPayload = {
+    since,
+    peer,
+    tables: await db.projectTables.where('updatedAt').above(since).toArray(),
+    tableHistory: await db.tableHistory.where('updatedAt').above(since).toArray(),
+    issues: await db.issues.where('updatedAt').above(since).toArray(),
+    attendance: await db.attendance.where('updatedAt').above(since).toArray(),
+    deleted: (await db.tombstones.where('deletedAt').above(since).toArray())
+      .filter(t => PEER_ENTITIES.includes(t.entity))
+  };
+
+  const recordCount = payload.tables!.length + payload.tableHistory!.length + payload.issues!.length + payload.attendance!.length + payload.deleted!.length;
+  return { data: encodeSyncBody('packet', payload).data, recordCount };
+};
+
+export interface PeerImportResult extends ImportResult {
+  peer: PeerPacketInfo;
+}
+
+/**
+ * Merges a packet from another device and remembers how far both sides have got,
+ * so the next packet in either direction only carries newer changes.
+ * Throws PeerPacketError for anything that is not a peer packet, and
+ * PayloadVersionError / DecryptionError like the cloud import.
+ */
+export const importPeerPacket = async (data: string): Promise<PeerImportResult> => {
+  let decoded;
+  try {
+    decoded = decodeSyncBody(data.trim());
+  } catch (e) {
+    if (e instanceof PayloadVersionError || e instanceof DecryptionError) throw e;
+    throw new PeerPacketError('Soubor není offline balíček MST.');
+  }
+
+  const { kind, payload } = decoded;
+  const peer = payload.peer;
+  if (kind !== 'packet' || !peer) throw new PeerPacketError('Soubor není offline balíček MST.');
+  if (peer.deviceId === getDeviceId()) throw new PeerPacketError('Balíček pochází z tohoto zařízení.');
+
+  const peers = getPeers();
+  const previous = peers[peer.deviceId];
+  // Local edits newer than what the peer has confirmed from us may clash with theirs.
+  // Before the peer confirms anything, edits already pushed to the cloud count as shared
+  // and follow last-writer-wins, so a first exchange only flags edits made since then.
+  const summary = await applyPayload(payload, PEER_ENTITIES, previous?.delivered || getLastPushAt());
+
+  peers[peer.deviceId] = {
+    deviceId: peer.deviceId,
+    name: peer.name,
+    received: Math.max(previous?.received || 0, peer.revision),
+    delivered: Math.max(previous?.delivered || 0, peer.known[getDeviceId()] || 0),
+    lastSeenAt: Date.now()
+  };
+  savePeers(peers);
+
+  return { ...summary, bytesRaw: decoded.bytesRaw, peer };
+};
+
+/**
+ * Splits a packet into QR frames: "MSTP:<packet id>:<n>/<total>:<chunk>".
+ */
+export const splitIntoFrames = (data: string): string[] => {
+  const packetId = Math.random().toString(36).substring(2, 8);
+  const total = Math.max(Math.ceil(data.length / QR_CHUNK_SIZE), 1);
+  const frames: string[] = [];
+  for (let i = 0; i < total; i++) {
+    frames.push(`${QR_PREFIX}:${packetId}:${i + 1}/${total}:${data.slice(i * QR_CHUNK_SIZE, (i + 1) * QR_CHUNK_SIZE)}`);
+  }
+  return frames;
+};
+
+/**
+ * Collects scanned QR frames in any order. Frames from a different packet
+ * restart the collection, so a half-scanned sequence cannot mix with a new one.
+ */
+export class FrameAssembler {
+  private packetId = '';
+  private chunks: string[] = [];
+  private total = 0;
+
+  /** Returns false for codes that are not MST packet frames. */
+  add(text: string): boolean {
+    const match = /^MSTP:([a-z0-9]+):(\d+)\/(\d+):([\s\S]*)$/.exec(text);
+    if (!match) return false;
+    const [, packetId, index, total, chunk] = match;
+    if (packetId !== this.packetId) {
+      this.packetId = packetId;
+      this.total = Number(total);
+      this.chunks = new Array(this.total);
+    }
+    this.chunks[Number(index) - 1] = chunk;
+    return true;
+  }
+
+  get received() {
+    return this.chunks.filter(c => c !== undefined).length;
+  }
+
+  get expected() {
+    return this.total;
+  }
+
+  get isComplete() {
+    return this.total > 0 && this.received === this.total;
+  }
+
+  assemble() {
+    return this.chunks.join('');
+  }
+}
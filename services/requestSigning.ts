@@ -0,0 +1,66 @@
+import CryptoJS from 'crypto-js';
+
+// Requests older or newer than this are rejected, and nonces are remembered this long
+export const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface RequestSignature {
+  ts: string; // Unix time in ms
+  nonce: string;
+  sig: string; // hex HMAC-SHA256
+}
+
+/**
+ * Canonical content of a pull request, which has no body to sign.
+ */
+export const pullContent = (deviceId: string, cursor: string) => {
+  return `pull\n${deviceId}\n${cursor}`;
+};
+
+/**
+ * HMAC-SHA256 over "ts\nnonce\ncontent". The same construction is verified by
+ * server/syncServer.ts and apps-script-backend.gs.
+ */
+export const computeSignature = (secret: string, ts: string, nonce: string, content: string) => {
+  return CryptoJS.HmacSHA256(`${ts}\n${nonce}\n${content}`, secret).toString(CryptoJS.enc.Hex);
+};
+
+export const signRequest = (secret: string, content: string): RequestSignature => {
+  const ts = String(Date.now());
+  const nonce = CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
+  return { ts, nonce, sig: computeSignature(secret, ts, nonce, content) };
+};
+
+/**
+ * Appends ts/nonce/sig query parameters (signatures travel in the URL because
+ * Apps Script cannot read request headers). Unsigned when no secret is set.
+ */
+export const signedUrl = (url: string, secret: string, content: string) => {
+  if (!secret) return url;
+  const params = new URLSearchParams({ ...signRequest(secret, content) });
+  return `${url}${url.includes('?') ? '&' : '?'}${params}`;
+};
+
+// Compares without bailing out at the first differing character
+export const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * Checks signature and freshness. Returns an error message, or null when valid.
+ * Replay protection (remembering nonces) is up to the caller.
+ */
+export const verifySignature = (
+  secret: string,
+  signature: Partial<RequestSignature>,
+  content: string,
+  now = Date.now()
+): string | null => {
+  const { ts, nonce, sig } = signature;
+  if (!ts || !nonce || !sig) return 'Missing request signature';
+  if (Math.abs(now - Number(ts)) > SIGNATURE_MAX_AGE_MS) return 'Request timestamp outside allowed window';
+  if (!safeEqual(computeSignature(secret, ts, nonce, content), sig)) return 'Invalid request signature';
+  return null;
+};
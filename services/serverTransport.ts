@@ -0,0 +1,38 @@
+import { SyncAckRequest, SyncPushRequest } from '../types';
+import { SyncTransport, readSyncResponse } from './syncTransport';
+import { pullContent, signedUrl } from './requestSigning';
+
+/**
+ * Transport for the self-hosted sync server in server/syncServer.ts.
+ * `baseUrl` is the server root, e.g. http://192.168.1.10:8787
+ * With a `secret`, every request carries an HMAC signature in the query string.
+ */
+export const createServerTransport = (baseUrl: string, secret = ''): SyncTransport => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: SyncPushRequest | SyncAckRequest) => {
+    const text = JSON.stringify(body);
+    return readSyncResponse(await fetch(signedUrl(`${root}${path}`, secret, text), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: text
+    }));
+  };
+
+  return {
+    async push(deviceId, data) {
+      return post('/push', { action: 'push', deviceId, data });
+    },
+
+    async pull(deviceId, cursor) {
+      const params = new URLSearchParams({ deviceId, cursor });
+      const pullUrl = signedUrl(`${root}/pull?${params}`, secret, pullContent(deviceId, cursor));
+      const result = await readSyncResponse(await fetch(pullUrl));
+      return { batches: result.batches || [], cursor: result.cursor || cursor, message: result.message };
+    },
+
+    async ack(deviceId, cursor) {
+      await post('/ack', { action: 'ack', deviceId, cursor });
+    }
+  };
+};
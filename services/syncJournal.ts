@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { SyncJournalEntry } from '../types';
+
+// Oldest entries beyond this are dropped so the journal stays small on field devices
+const MAX_ENTRIES = 500;
+
+export type EntityCounts = SyncJournalEntry['entityCounts'];
+
+export const addEntityCounts = (target: EntityCounts, source: EntityCounts) => {
+  for (const [key, value] of Object.entries(source) as [keyof EntityCounts, number][]) {
+    target[key] = (target[key] || 0) + value;
+  }
+  return target;
+};
+
+/**
+ * Appends one sync attempt to the journal and prunes old entries.
+ * Journaling must never break a sync, so failures are only logged.
+ */
+export const recordSyncAttempt = async (entry: Omit<SyncJournalEntry, 'id'>) => {
+  try {
+    await db.syncJournal.add(entry);
+    const excess = (await db.syncJournal.count()) - MAX_ENTRIES;
+    if (excess > 0) {
+      const oldKeys = await db.syncJournal.orderBy('startedAt').limit(excess).primaryKeys();
+      await db.syncJournal.bulkDelete(oldKeys);
+    }
+  } catch (error) {
+    console.error('Sync journal error:', error);
+  }
+};
+
+export const clearSyncJournal = () => db.syncJournal.clear();
@@ -0,0 +1,40 @@
+import { SyncResponse } from '../types';
+
+export type SyncBackend = 'apps-script' | 'server';
+
+export interface PullResult {
+  batches: string[]; // LZ-compressed payloads, oldest first
+  cursor: string; // Position after the last returned batch
+  message?: string;
+}
+
+/**
+ * Wire-level access to a sync backend. Implementations throw on network or
+ * server errors; googleSheetService turns those into user facing messages.
+ */
+export interface SyncTransport {
+  /** Uploads one compressed delta batch and returns the backend's reply. */
+  push(deviceId: string, data: string): Promise<SyncResponse>;
+  /** Downloads batches from other devices stored after `cursor`. */
+  pull(deviceId: string, cursor: string): Promise<PullResult>;
+  /** Confirms the device has applied everything up to `cursor`. */
+  ack(deviceId: string, cursor: string): Promise<void>;
+}
+
+/**
+ * The backend answered, but rejected the request. Network failures surface as plain errors.
+ */
+export class SyncServerError extends Error {}
+
+/**
+ * Parses a backend reply and throws unless it reports success.
+ */
+export const readSyncResponse = async (response: Response): Promise<SyncResponse> => {
+  if (!response.ok) {
+    const body: SyncResponse | null = await response.json().catch(() => null);
+    throw new SyncServerError(body?.message || `HTTP ${response.status}`);
+  }
+  const result: SyncResponse = await response.json();
+  if (result.status !== 'success') throw new SyncServerError(result.message || 'Neznámá chyba');
+  return result;
+};
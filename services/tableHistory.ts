@@ -0,0 +1,26 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, deleteSynced } from '../db';
+import { Table, TableStatus, TableStatusChange } from '../types';
+
+/**
+ * Appends a history entry for every table whose status actually changes.
+ * Call it with the tables as they were before the update, inside the same
+ * transaction (db.tableHistory must be in its scope).
+ */
+export const recordStatusChanges = async (before: Table[], to: TableStatus, by: string, at = Date.now()) => {
+  const changes: TableStatusChange[] = before
+    .filter(t => t.status !== to)
+    .map(t => ({ id: uuidv4(), tableId: t.id, projectId: t.projectId, from: t.status, to, by, at }));
+  if (changes.length > 0) await db.tableHistory.bulkAdd(changes);
+};
+
+export const getTableHistory = (tableId: string) =>
+  db.tableHistory.where('tableId').equals(tableId).reverse().sortBy('at');
+
+/**
+ * Drops the history of deleted tables, on other devices too.
+ */
+export const deleteHistoryOfTables = async (tableIds: string[]) => {
+  if (tableIds.length === 0) return;
+  await deleteSynced('tableHistory', await db.tableHistory.where('tableId').anyOf(tableIds).primaryKeys());
+};
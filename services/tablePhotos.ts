@@ -0,0 +1,50 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { Table } from '../types';
+
+// Long side of stored photos; enough to read a serial plate, ~200-400 kB as JPEG
+const MAX_PHOTO_SIDE = 1600;
+const PHOTO_QUALITY = 0.75;
+
+/**
+ * Downscales a camera photo and re-encodes it as JPEG.
+ */
+export const compressPhoto = async (file: Blob): Promise<{ blob: Blob; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(file);
+  const ratio = Math.min(1, MAX_PHOTO_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * ratio);
+  const height = Math.round(bitmap.height * ratio);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Photo compression failed'))), 'image/jpeg', PHOTO_QUALITY);
+  });
+  return { blob, width, height };
+};
+
+export const addTablePhoto = async (table: Table, file: Blob, takenBy: string) => {
+  const { blob, width, height } = await compressPhoto(file);
+  await db.tablePhotos.add({
+    id: uuidv4(),
+    tableId: table.id,
+    projectId: table.projectId,
+    blob,
+    width,
+    height,
+    takenAt: Date.now(),
+    takenBy
+  });
+};
+
+/**
+ * Photos are not synced, so they are dropped together with their tables.
+ */
+export const deletePhotosOfTables = (tableIds: string[]) =>
+  db.tablePhotos.where('tableId').anyOf(tableIds).delete();
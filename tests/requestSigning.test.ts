@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createFileStore } from '../server/fileStore';
+import { createSyncServer } from '../server/syncServer';
+import { SIGNATURE_MAX_AGE_MS, computeSignature, pullContent, signedUrl } from '../services/requestSigning';
+
+const SECRET = 'test-secret';
+
+describe('signed sync server', () => {
+  let dir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mst-sync-'));
+    server = createSyncServer(createFileStore(path.join(dir, 'data.json')), { secret: SECRET });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const push = (url: string, body: string) => fetch(url, { method: 'POST', body });
+
+  it('accepts a signed push', async () => {
+    const body = JSON.stringify({ action: 'push', deviceId: 'device-a', data: 'batch' });
+    const response = await push(signedUrl(`${baseUrl}/push`, SECRET, body), body);
+    assert.equal(response.status, 200);
+  });
+
+  it('rejects unsigned requests', async () => {
+    const body = JSON.stringify({ action: 'push', deviceId: 'device-a', data: 'batch' });
+    assert.equal((await push(`${baseUrl}/push`, body)).status, 401);
+    assert.equal((await fetch(`${baseUrl}/pull?deviceId=device-a&cursor=`)).status, 401);
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const url = signedUrl(`${baseUrl}/pull?deviceId=device-b&cursor=`, SECRET, pullContent('device-b', ''));
+    assert.equal((await fetch(url)).status, 200);
+    const replay = await fetch(url);
+    assert.equal(replay.status, 401);
+    assert.equal((await replay.json()).message, 'Replayed request');
+  });
+
+  it('rejects a stale timestamp', async () => {
+    const body = JSON.stringify({ action: 'ack', deviceId: 'device-b', cursor: '1' });
+    const ts = String(Date.now() - SIGNATURE_MAX_AGE_MS - 60 * 1000);
+    const nonce = 'stale-nonce';
+    const params = new URLSearchParams({ ts, nonce, sig: computeSignature(SECRET, ts, nonce, body) });
+    const response = await push(`${baseUrl}/ack?${params}`, body);
+    assert.equal(response.status, 401);
+    assert.equal((await response.json()).message, 'Request timestamp outside allowed window');
+  });
+});
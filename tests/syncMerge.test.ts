@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MergeInput, mergeRecords } from '../logic/syncMerge';
+import { SyncRecord, Table, TableStatus, Tombstone } from '../types';
+
+const table = (fields: Partial<Table> & { syncedAt?: number }): Table => ({
+  id: 't1',
+  projectId: 'p1',
+  index: 1,
+  type: 'S',
+  status: TableStatus.Pending,
+  x: 0,
+  y: 0,
+  ...fields
+});
+
+const merge = (input: Partial<MergeInput> & Pick<MergeInput, 'local' | 'remote'>) => mergeRecords({
+  entity: 'tables',
+  localTombstones: [],
+  remoteTombstones: [],
+  lastSyncAt: 0,
+  ...input
+});
+
+const syncedAtOf = (record: SyncRecord) => (record as { syncedAt?: number }).syncedAt;
+
+describe('mergeRecords', () => {
+  it('keeps a local edit when the remote copy is the version last applied', () => {
+    const result = merge({
+      local: [table({ notes: 'local', updatedAt: 200, syncedAt: 100 })],
+      remote: [table({ notes: 'old', updatedAt: 100 })],
+      lastSyncAt: 150
+    });
+    assert.deepEqual(result, { toPut: [], toDelete: [], conflicts: [] });
+  });
+
+  it('applies a remote edit over an untouched local copy', () => {
+    const result = merge({
+      local: [table({ notes: 'old', updatedAt: 100, syncedAt: 100 })],
+      // Another device's clock may be behind ours; only the base version matters
+      remote: [table({ notes: 'remote', updatedAt: 50 })],
+      lastSyncAt: 150
+    });
+    assert.equal(result.conflicts.length, 0);
+    assert.equal(result.toPut.length, 1);
+    assert.equal((result.toPut[0] as Table).notes, 'remote');
+    assert.equal(syncedAtOf(result.toPut[0]), 50);
+  });
+
+  it('reports a conflict when both sides edited since the last sync', () => {
+    const local = table({ notes: 'local', updatedAt: 200, syncedAt: 100 });
+    const remote = table({ notes: 'remote', updatedAt: 300 });
+    const result = merge({ local: [local], remote: [remote], lastSyncAt: 150 });
+    assert.deepEqual(result.toPut, []);
+    assert.deepEqual(result.conflicts, [{ recordId: 't1', local, remote }]);
+  });
+
+  it('treats a differing copy without a base version as a concurrent edit', () => {
+    const local = table({ notes: 'local', updatedAt: 200 });
+    const remote = table({ notes: 'remote', updatedAt: 100 });
+    assert.equal(merge({ local: [local], remote: [remote] }).conflicts.length, 1);
+
+    // Once the local edit was pushed, the newer copy wins
+    const pushed = merge({ local: [local], remote: [table({ notes: 'remote', updatedAt: 300 })], lastSyncAt: 250 });
+    assert.equal(pushed.conflicts.length, 0);
+    assert.equal((pushed.toPut[0] as Table).notes, 'remote');
+    const older = merge({ local: [local], remote: [remote], lastSyncAt: 250 });
+    assert.deepEqual(older, { toPut: [], toDelete: [], conflicts: [] });
+  });
+
+  it('drops the sender\'s local-only fields from new records', () => {
+    const result = merge({ local: [], remote: [table({ updatedAt: 100, syncedAt: 7 })] });
+    assert.equal(syncedAtOf(result.toPut[0]), 100);
+  });
+
+  describe('tombstones', () => {
+    const remoteTombstone: Tombstone = { entity: 'tables', id: 't1', deletedAt: 500 };
+
+    it('deletes a local copy older than the remote deletion', () => {
+      const result = merge({ local: [table({ updatedAt: 400 })], remote: [], remoteTombstones: [remoteTombstone] });
+      assert.deepEqual(result.toDelete, ['t1']);
+    });
+
+    it('keeps a local copy edited after the remote deletion', () => {
+      const result = merge({ local: [table({ updatedAt: 600 })], remote: [], remoteTombstones: [remoteTombstone] });
+      assert.deepEqual(result.toDelete, []);
+    });
+
+    it('skips a remote copy older than the local deletion', () => {
+      const result = merge({ local: [], remote: [table({ updatedAt: 400 })], localTombstones: [remoteTombstone] });
+      assert.deepEqual(result.toPut, []);
+    });
+
+    it('resurrects a record edited remotely after the local deletion', () => {
+      const result = merge({ local: [], remote: [table({ updatedAt: 600 })], localTombstones: [remoteTombstone] });
+      assert.equal(result.toPut.length, 1);
+    });
+  });
+
+  describe('per-field table status merge', () => {
+    it('lets an installation win over a pending copy', () => {
+      const result = merge({
+        local: [table({ updatedAt: 200, syncedAt: 100 })],
+        remote: [table({ status: TableStatus.Completed, completedBy: 'm1', completedAt: 250, updatedAt: 300 })],
+        lastSyncAt: 150
+      });
+      assert.equal(result.conflicts.length, 0);
+      const merged = result.toPut[0] as Table;
+      assert.equal(merged.status, TableStatus.Completed);
+      assert.equal(merged.completedBy, 'm1');
+      // A new local version that goes out with the next push
+      assert.equal(merged.updatedAt, 301);
+      assert.equal(syncedAtOf(merged), 300);
+    });
+
+    it('keeps stages finished on either device', () => {
+      const result = merge({
+        local: [table({ stages: { piling: { by: 'a', at: 10 } }, updatedAt: 200, syncedAt: 100 })],
+        remote: [table({ stages: { mounting: { by: 'b', at: 20 } }, updatedAt: 300 })],
+        lastSyncAt: 150
+      });
+      assert.deepEqual((result.toPut[0] as Table).stages, { piling: { by: 'a', at: 10 }, mounting: { by: 'b', at: 20 } });
+    });
+
+    it('reports a conflict when other fields differ as well', () => {
+      const result = merge({
+        local: [table({ notes: 'local', updatedAt: 200, syncedAt: 100 })],
+        remote: [table({ status: TableStatus.Completed, updatedAt: 300 })],
+        lastSyncAt: 150
+      });
+      assert.equal(result.conflicts.length, 1);
+    });
+
+    it('applies only to tables', () => {
+      const result = merge({
+        entity: 'issues',
+        local: [table({ updatedAt: 200, syncedAt: 100 })],
+        remote: [table({ status: TableStatus.Completed, updatedAt: 300 })],
+        lastSyncAt: 150
+      });
+      assert.equal(result.conflicts.length, 1);
+    });
+  });
+});
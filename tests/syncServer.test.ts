@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createFileStore } from '../server/fileStore';
+import { createSyncServer } from '../server/syncServer';
+import { createServerTransport } from '../services/serverTransport';
+
+describe('sync server round trip', () => {
+  let dir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mst-sync-'));
+    server = createSyncServer(createFileStore(path.join(dir, 'data.json')), { maxBodyBytes: 64 * 1024 });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('delivers a pushed batch to other devices once', async () => {
+    const transport = createServerTransport(baseUrl);
+    await transport.push('device-a', 'batch-1');
+
+    // The pushing device does not get its own batch back, but its cursor moves past it
+    const own = await transport.pull('device-a', '');
+    assert.deepEqual(own.batches, []);
+    assert.equal(own.cursor, '1');
+
+    const first = await transport.pull('device-b', '');
+    assert.deepEqual(first.batches, ['batch-1']);
+    await transport.ack('device-b', first.cursor);
+
+    const again = await transport.pull('device-b', first.cursor);
+    assert.deepEqual(again.batches, []);
+    assert.equal(again.cursor, first.cursor);
+
+    const stored = JSON.parse(await fs.readFile(path.join(dir, 'data.json'), 'utf8'));
+    assert.equal(stored.acks['device-b'].cursor, 1);
+  });
+
+  it('answers an oversized body with 413', async () => {
+    const data = 'x'.repeat(256 * 1024);
+    const response = await fetch(`${baseUrl}/push`, { method: 'POST', body: JSON.stringify({ action: 'push', deviceId: 'device-a', data }) });
+    assert.equal(response.status, 413);
+  });
+
+  it('answers malformed JSON with 400', async () => {
+    for (const route of ['/push', '/ack']) {
+      const response = await fetch(`${baseUrl}${route}`, { method: 'POST', body: '{not json' });
+      assert.equal(response.status, 400, route);
+    }
+  });
+});
@@ -5,12 +5,41 @@ export enum TableStatus {
   Issue = 2
 }
 
+// IDs of the built-in tracker types every catalogue starts with
 export enum TableType {
   Small = 'S',
   Medium = 'M',
   Large = 'L'
 }
 
+// Tracker model from the company catalogue; tables refer to it by ID
+export interface TrackerType {
+  id: string; // TableType for the built-in types, uuid for the rest
+  code: string; // Short label on the map and in layout files, e.g. "L" or "3S"
+  name: string;
+  vendor?: string;
+  strings: number; // Fractional for half-string trackers sharing a string with a neighbour
+  modules?: number; // Missing: strings × the project's string length
+  piles?: number;
+  motors?: number;
+  updatedAt?: number; // Last local modification, used for delta sync
+}
+
+// What is wrong with a table in TableStatus.Issue
+export enum IssueCategory {
+  MissingPart = 'missing_part',
+  DamagedModule = 'damaged_module',
+  PileHeight = 'pile_height',
+  Other = 'other'
+}
+
+export enum IssueSeverity {
+  Low = 'low',
+  Medium = 'medium',
+  High = 'high', // Blocks further work on the tables
+  Critical = 'critical' // Safety or energization risk
+}
+
 export type UserRole = 'admin' | 'employee';
 
 export interface UserProfile {
@@ -22,30 +51,126 @@ export interface UserProfile {
 }
 
 export interface Table {
-  id: string; // usually `${projectId}_${index}`
+  id: string; // `${projectId}_${index}` when generated with the project, a UUID when added later
   projectId: string;
   index: number;
-  type: TableType;
+  type: string; // TrackerType ID
   status: TableStatus;
   x: number; // grid coordinate X
   y: number; // grid coordinate Y
+  row?: string; // Row label from an imported site layout
+  block?: string; // Block / field label from an imported site layout
+  rotation?: number; // Degrees clockwise, set in the layout editor
   completedBy?: string; // Member ID who installed it
   completedAt?: number; // Timestamp
+  issueCategory?: IssueCategory; // Only while status is Issue
+  notes?: string; // Free text from the table detail sheet
+  stages?: Record<string, StageProgress>; // Finished installation stages by StageDefinition.id
+  combinerBoxId?: string; // CombinerBox the table's strings are landed in
+  stringIds?: string[]; // Strings the table's modules belong to; half-string trackers share one with a neighbour
+  updatedAt?: number; // Last local modification, used for delta sync
+}
+
+// Central inverter of a project; its DC side is fed by combiner boxes
+export interface Inverter {
+  id: string;
+  projectId: string;
+  name: string;
+  acPowerKw: number; // Nameplate AC output
+  updatedAt?: number; // Last local modification, used for delta sync
+}
+
+// DC combiner box collecting strings from a group of tables
+export interface CombinerBox {
+  id: string;
+  projectId: string;
+  inverterId: string;
+  name: string; // Also prefixes the IDs of its strings, e.g. "CB01-S03"
+  updatedAt?: number; // Last local modification, used for delta sync
+}
+
+// One step of a project's installation pipeline (piling, modules, QC…)
+export interface StageDefinition {
+  id: string;
+  name: string;
+}
+
+export interface StageProgress {
+  by: string; // Member or user ID
+  at: number;
+}
+
+// One status transition of a table; append-only, never edited
+export interface TableStatusChange {
+  id: string; // uuid
+  tableId: string;
+  projectId: string;
+  from: TableStatus;
+  to: TableStatus;
+  by: string; // Member or user ID who made the change
+  at: number;
+  updatedAt?: number; // Last local modification, used for delta sync
+}
+
+// Photo of a table taken in the field; stays on the device, too heavy for sync
+export interface TablePhoto {
+  id: string; // uuid
+  tableId: string;
+  projectId: string;
+  blob: Blob; // Compressed JPEG
+  width: number;
+  height: number;
+  takenAt: number;
+  takenBy: string; // User ID
+  issueId?: string; // Photo attached to an issue report
+}
+
+// Defect reported in the field; puts its tables into TableStatus.Issue until resolved
+export interface Issue {
+  id: string; // uuid
+  projectId: string;
+  tableIds: string[];
+  category: IssueCategory;
+  severity: IssueSeverity;
+  description: string;
+  reportedBy: string; // Member or user ID
+  reportedAt: number;
+  assignee?: string; // Team member ID responsible for the fix
+  priorStatuses: Record<string, TableStatus>; // Table ID -> status before the issue, restored on resolution
+  resolvedAt?: number; // Open while missing
+  resolvedBy?: string;
+  resolution?: string;
+  updatedAt?: number; // Last local modification, used for delta sync
+}
+
+// Module datasheet values (STC) used for capacity and string sizing
+export interface ModuleSpec {
+  name: string; // Shown in pickers, e.g. "700 Wp TOPCon"
+  powerW: number; // Peak power per module
+  vocV: number; // Open-circuit voltage
+  iscA: number; // Short-circuit current
+  widthMm: number;
+  lengthMm: number;
+}
+
+export interface PowerConfig {
+  module: ModuleSpec;
+  panelsPerString: number;
 }
 
 export interface Project {
   id: string;
   name: string;
   location: string;
-  tableCounts: {
-    small: number;
-    medium: number;
-    large: number;
-  };
+  tableCounts: Record<string, number>; // Tables per TrackerType ID
   createdDate: number;
   lastSynced: number;
   tablesGenerated: boolean;
   assignedEmployees?: string[]; // List of TeamMember IDs
+  stages?: StageDefinition[]; // Installation pipeline in order; missing on older projects (default pipeline)
+  power?: PowerConfig; // Module and string layout; missing on older projects (700 Wp, 28 per string)
+  deadline?: string; // Planned completion, YYYY-MM-DD
+  updatedAt?: number; // Last local modification, used for delta sync
 }
 
 export interface TeamMember {
@@ -58,6 +183,7 @@ export interface TeamMember {
   currentProjectId?: string; // Assigned project
   phone?: string;
   notes?: string;
+  updatedAt?: number; // Last local modification, used for delta sync
 }
 
 export enum ToolStatus {
@@ -77,6 +203,7 @@ export interface Tool {
   borrowedAt?: number;
   lastService?: number;
   purchaseDate?: number;
+  updatedAt?: number; // Last local modification, used for delta sync
 }
 
 export interface AttendanceRecord {
@@ -87,23 +214,120 @@ export interface AttendanceRecord {
   checkOut?: number; // timestamp
   type: 'Work' | 'Sick' | 'Vacation';
   synced: boolean;
+  updatedAt?: number; // Last local modification, used for delta sync
 }
 
 export interface AccessLog {
-  id?: number;
+  id?: number; // Local auto-increment key, differs between devices
+  syncId?: string; // Globally unique ID used to de-duplicate synced logs
   action: string;
   details: string;
   timestamp: number;
   user: string;
+  updatedAt?: number; // Last local modification, used for delta sync
 }
 
 // Interfaces for Google Sheets Sync
+export type SyncEntity = 'projects' | 'trackerTypes' | 'tables' | 'tableHistory' | 'issues' | 'inverters' | 'combinerBoxes' | 'team' | 'attendance' | 'tools' | 'chat' | 'dailyReports' | 'logs';
+
+// Records merged by ID; logs are append-only and handled separately
+export type SyncRecord = Project | TrackerType | Table | TableStatusChange | Issue | Inverter | CombinerBox | TeamMember | AttendanceRecord | Tool | ChatMessage | DailyReport;
+
+// Marker left behind by a deletion so it can propagate to other devices
+export interface Tombstone {
+  entity: SyncEntity;
+  id: string; // ID of the deleted record
+  deletedAt: number;
+}
+
+// Record edited both locally and remotely since the last sync, waiting for the admin
+export interface SyncConflict {
+  id: string; // `${entity}_${recordId}`
+  entity: SyncEntity;
+  recordId: string;
+  local: SyncRecord;
+  remote: SyncRecord;
+  detectedAt: number;
+}
+
+// Each collection holds only records changed since the last acknowledged push
+// Collections left out when the entity is not enabled for sync on the sending device
 export interface SyncPayload {
-  projects: Project[];
-  tables: Table[]; // Only send updated tables in real app to save bandwidth
-  team: TeamMember[];
+  projects?: Project[];
+  trackerTypes?: TrackerType[];
+  tables?: Table[];
+  tableHistory?: TableStatusChange[];
+  issues?: Issue[];
+  inverters?: Inverter[];
+  combinerBoxes?: CombinerBox[];
+  team?: TeamMember[];
+  attendance?: AttendanceRecord[];
   tools?: Tool[];
-  attendance: AttendanceRecord[];
+  chat?: ChatMessage[];
+  dailyReports?: DailyReport[];
+  logs?: AccessLog[];
+  deleted?: Tombstone[];
+  since?: number; // Local timestamp of the previous batch handed to the outbox (0 = full upload)
+  cursor?: string; // Server cursor received on the last successful pull
+  peer?: PeerPacketInfo; // Set on offline packets exchanged between devices
+}
+
+// Sender details carried by an offline ("sneakernet") packet
+export interface PeerPacketInfo {
+  deviceId: string;
+  name: string; // Who exported it, shown to the importing foreman
+  revision: number; // Sender's local time when the packet was built
+  known: Record<string, number>; // Latest revision the sender has imported from each peer
+}
+
+// Compressed sync batch waiting in the persistent outbox until the backend accepts it
+export interface OutboxBatch {
+  id?: number;
+  data: string; // LZ-compressed SyncPayload
+  createdAt: number;
+  recordCount: number;
+  entityCounts?: Partial<Record<SyncEntity | 'deleted', number>>; // Missing on batches queued before v11
+  bytesRaw?: number; // JSON size before LZ compression
+  since: number; // Changes in this batch are newer than this local timestamp
+  projectIds: string[]; // Marked lastSynced once delivered
+  attendanceIds: string[]; // Marked synced once delivered
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// One push or pull attempt, kept for diagnostics in the Data > Historie tab
+export interface SyncJournalEntry {
+  id?: number;
+  startedAt: number;
+  durationMs: number;
+  direction: 'push' | 'pull';
+  status: 'success' | 'error';
+  entityCounts: Partial<Record<SyncEntity | 'deleted', number>>;
+  bytesRaw: number; // JSON size before LZ compression
+  bytesCompressed: number; // Size on the wire (after LZ and optional encryption)
+  response: string; // Server message or error
+  deviceId: string;
+}
+
+// Wire format shared by the Apps Script backend and the local sync server
+export interface SyncPushRequest {
+  action: 'push';
+  deviceId: string;
+  data: string; // LZ-compressed SyncPayload
+}
+
+export interface SyncAckRequest {
+  action: 'ack';
+  deviceId: string;
+  cursor: string; // Position the device has applied up to
+}
+
+export interface SyncResponse {
+  status: 'success' | 'error' | 'active';
+  message?: string;
+  batches?: string[]; // LZ-compressed SyncPayloads pushed by other devices (pull only)
+  cursor?: string; // Opaque server position, echoed back on the next pull
 }
 
 // Chat System
@@ -114,7 +338,8 @@ export interface ChatMessage {
   message: string;
   timestamp: number;
   projectId?: string; // Optional: message related to specific project
-  isRead: boolean;
+  isRead: boolean; // Local to each device, never overwritten by sync
+  updatedAt?: number; // Last local modification, used for delta sync
 }
 
 // Daily Reports
@@ -128,7 +353,9 @@ export interface DailyReport {
     tablesCompleted: number; // completed today
     tablesTotal: number;
     completionPercentage: number;
-    issuesCount: number;
+    issuesCount: number; // Tables in TableStatus.Issue
+    issuesOpened?: number; // Issue reports filed today; missing on older reports
+    issuesResolved?: number;
     activeWorkers: number;
   }[];
   teamStats: {
@@ -146,4 +373,5 @@ export interface DailyReport {
     issuesReported: number;
   };
   summary: string; // Auto-generated summary text
+  updatedAt?: number; // Last local modification, used for delta sync
 }